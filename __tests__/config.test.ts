@@ -0,0 +1,237 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { loadConfigFile, resolveEnvironment, PACKAGE_JSON_CONFIG_KEY } from '../src/config';
+import { MigrationConfigError } from '../src/errors';
+
+// ─── loadConfigFile ──────────────────────────────────────────────────────────
+
+describe('loadConfigFile', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-config-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should return an empty config when nothing is found', () => {
+        expect(loadConfigFile({ cwd: tmpDir })).toEqual({ config: {}, filepath: null });
+    });
+
+    it('should load pg-migrate-runner.config.json', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.json'),
+            JSON.stringify({ tableName: 'custom_migrations', lockId: 42 })
+        );
+
+        const result = loadConfigFile({ cwd: tmpDir });
+        expect(result.filepath).toBe(path.join(tmpDir, 'pg-migrate-runner.config.json'));
+        expect(result.config).toEqual({ tableName: 'custom_migrations', lockId: 42 });
+    });
+
+    it('should load a .js config exported via module.exports', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.js'),
+            'module.exports = { useLock: false, ssl: { rejectUnauthorized: false } };'
+        );
+
+        const { config } = loadConfigFile({ cwd: tmpDir });
+        expect(config).toEqual({ useLock: false, ssl: { rejectUnauthorized: false } });
+    });
+
+    it('should prefer the .json file over the .cjs file', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.json'),
+            JSON.stringify({ tableName: 'from_json' })
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.cjs'),
+            "module.exports = { tableName: 'from_cjs' };"
+        );
+
+        expect(loadConfigFile({ cwd: tmpDir }).config.tableName).toBe('from_json');
+    });
+
+    it('should fall back to the package.json key', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'package.json'),
+            JSON.stringify({ name: 'app', [PACKAGE_JSON_CONFIG_KEY]: { tableName: 'pkg_table' } })
+        );
+
+        const result = loadConfigFile({ cwd: tmpDir });
+        expect(result.filepath).toBe(path.join(tmpDir, 'package.json'));
+        expect(result.config).toEqual({ tableName: 'pkg_table' });
+    });
+
+    it('should ignore a package.json without the key', () => {
+        fs.writeFileSync(path.join(tmpDir, 'package.json'), JSON.stringify({ name: 'app' }));
+        expect(loadConfigFile({ cwd: tmpDir }).filepath).toBeNull();
+    });
+
+    it('should resolve a relative migrationsDir against the config file directory', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.json'),
+            JSON.stringify({ migrationsDir: 'db/migrations' })
+        );
+
+        const { config } = loadConfigFile({ cwd: tmpDir });
+        expect(config.migrationsDir).toBe(path.join(tmpDir, 'db', 'migrations'));
+    });
+
+    it('should resolve each entry of a migrationsDir array, and seedsDir', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.json'),
+            JSON.stringify({ migrationsDir: ['migrations', '/abs/billing'], seedsDir: 'seeds' })
+        );
+
+        const { config } = loadConfigFile({ cwd: tmpDir });
+        expect(config.migrationsDir).toEqual([path.join(tmpDir, 'migrations'), '/abs/billing']);
+        expect(config.seedsDir).toBe(path.join(tmpDir, 'seeds'));
+    });
+
+    it('should resolve relative migrationsDir in each environment profile', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'pg-migrate-runner.config.json'),
+            JSON.stringify({ environments: { prod: { migrationsDir: 'prod/migrations' } } })
+        );
+
+        const { config } = loadConfigFile({ cwd: tmpDir });
+        expect(config.environments!.prod.migrationsDir).toBe(
+            path.join(tmpDir, 'prod', 'migrations')
+        );
+    });
+
+    it('should load an explicit config path relative to cwd', () => {
+        fs.mkdirSync(path.join(tmpDir, 'config'));
+        fs.writeFileSync(
+            path.join(tmpDir, 'config', 'migrations.json'),
+            JSON.stringify({ tableName: 'explicit' })
+        );
+
+        const result = loadConfigFile({ cwd: tmpDir, configPath: 'config/migrations.json' });
+        expect(result.filepath).toBe(path.join(tmpDir, 'config', 'migrations.json'));
+        expect(result.config.tableName).toBe('explicit');
+    });
+
+    it('should throw MigrationConfigError if an explicit path does not exist', () => {
+        expect(() => loadConfigFile({ cwd: tmpDir, configPath: 'missing.json' })).toThrow(
+            MigrationConfigError
+        );
+    });
+
+    it('should throw MigrationConfigError for invalid JSON', () => {
+        fs.writeFileSync(path.join(tmpDir, 'pg-migrate-runner.config.json'), '{ not json');
+        expect(() => loadConfigFile({ cwd: tmpDir })).toThrow(/Failed to parse config file/);
+    });
+
+    it('should throw MigrationConfigError if the config is not an object', () => {
+        fs.writeFileSync(path.join(tmpDir, 'pg-migrate-runner.config.json'), '[1, 2]');
+        expect(() => loadConfigFile({ cwd: tmpDir })).toThrow(/must be an object/);
+    });
+
+    it('should throw MigrationConfigError for unsupported extensions', () => {
+        fs.writeFileSync(path.join(tmpDir, 'migrations.yaml'), 'tableName: x');
+        expect(() => loadConfigFile({ cwd: tmpDir, configPath: 'migrations.yaml' })).toThrow(
+            /Unsupported config file type/
+        );
+    });
+});
+
+// ─── resolveEnvironment ──────────────────────────────────────────────────────
+
+describe('resolveEnvironment', () => {
+    const config = {
+        connectionString: 'postgres://localhost/dev',
+        tableName: 'schema_migrations',
+        lockId: 1,
+        environments: {
+            staging: { tableName: 'staging_migrations' },
+            prod: {
+                connectionStringEnv: 'TEST_PROD_DATABASE_URL',
+                lockId: 2,
+                confirmRollback: true
+            }
+        }
+    };
+
+    afterEach(() => {
+        delete process.env.TEST_PROD_DATABASE_URL;
+    });
+
+    it('should return the base config without environments when none is selected', () => {
+        expect(resolveEnvironment(config)).toEqual({
+            connectionString: 'postgres://localhost/dev',
+            tableName: 'schema_migrations',
+            lockId: 1
+        });
+    });
+
+    it('should apply the selected profile over the base config', () => {
+        expect(resolveEnvironment({ ...config, environment: 'staging' })).toEqual({
+            connectionString: 'postgres://localhost/dev',
+            tableName: 'staging_migrations',
+            lockId: 1
+        });
+    });
+
+    it('should not inherit base connection settings when the profile sets its own', () => {
+        process.env.TEST_PROD_DATABASE_URL = 'postgres://prod-host/app';
+
+        expect(resolveEnvironment({ ...config, environment: 'prod' })).toEqual({
+            connectionString: 'postgres://prod-host/app',
+            tableName: 'schema_migrations',
+            lockId: 2,
+            confirmRollback: true
+        });
+    });
+
+    it("should merge a profile's variables over the base variables", () => {
+        expect(
+            resolveEnvironment({
+                variables: { owner: 'app_owner', tablespace: 'pg_default' },
+                environments: { prod: { variables: { tablespace: 'fast_ssd' } } },
+                environment: 'prod'
+            })
+        ).toEqual({ variables: { owner: 'app_owner', tablespace: 'fast_ssd' } });
+    });
+
+    it('should throw MigrationConfigError if connectionStringEnv is not set', () => {
+        expect(() => resolveEnvironment({ ...config, environment: 'prod' })).toThrow(
+            /TEST_PROD_DATABASE_URL is not set \(required by environment 'prod'\)/
+        );
+    });
+
+    it('should leave connectionStringEnv alone when resolveConnection is false', () => {
+        expect(
+            resolveEnvironment({ ...config, environment: 'prod' }, { resolveConnection: false })
+        ).toEqual({
+            connectionStringEnv: 'TEST_PROD_DATABASE_URL',
+            tableName: 'schema_migrations',
+            lockId: 2,
+            confirmRollback: true
+        });
+    });
+
+    it('should throw MigrationConfigError listing available environments', () => {
+        expect(() => resolveEnvironment({ ...config, environment: 'qa' })).toThrow(
+            "Unknown environment 'qa'. Available environments: staging, prod."
+        );
+    });
+
+    it('should throw MigrationConfigError when no environments are configured', () => {
+        expect(() => resolveEnvironment({ environment: 'prod' })).toThrow(
+            /No environments are configured/
+        );
+    });
+
+    it('should be a no-op on an already resolved config', () => {
+        process.env.TEST_PROD_DATABASE_URL = 'postgres://prod-host/app';
+
+        const resolved = resolveEnvironment({ ...config, environment: 'prod' });
+        expect(resolveEnvironment(resolved)).toEqual(resolved);
+    });
+});
@@ -3,8 +3,14 @@ import {
     ChecksumMismatchError,
     MigrationLockError,
     MigrationParseError,
+    MigrationDuplicateVersionError,
     MigrationRollbackError,
-    MigrationFileNotFoundError
+    MigrationFileNotFoundError,
+    MigrationDirtyError,
+    MigrationWaitTimeoutError,
+    MigrationValidationError,
+    MigrationHookError,
+    MigrationConfigError
 } from '../src/errors';
 
 // ─── MigrationError ──────────────────────────────────────────────────────────
@@ -77,6 +83,26 @@ describe('ChecksumMismatchError', () => {
         expect(err.migration).toBe('20260214120000');
         expect(err.migrationName).toBe('add_users');
     });
+
+    it('should default mismatches to the single described migration', () => {
+        const err = new ChecksumMismatchError('20260214120000', 'add_users', 'a', 'b');
+        expect(err.mismatches).toEqual([
+            { version: '20260214120000', name: 'add_users', expected: 'a', actual: 'b' }
+        ]);
+    });
+
+    it('should list every drifted migration in the message', () => {
+        const mismatches = [
+            { version: '20260214120000', name: 'add_users', expected: 'a', actual: 'b' },
+            { version: '20260214130000', name: 'add_posts', expected: 'c', actual: 'd' }
+        ];
+        const err = new ChecksumMismatchError('20260214120000', 'add_users', 'a', 'b', mismatches);
+
+        expect(err.mismatches).toBe(mismatches);
+        expect(err.message).toContain('2 migrations');
+        expect(err.message).toContain('20260214120000_add_users');
+        expect(err.message).toContain('20260214130000_add_posts');
+    });
 });
 
 // ─── MigrationLockError ─────────────────────────────────────────────────────
@@ -103,6 +129,25 @@ describe('MigrationLockError', () => {
         expect(err.message).toContain('741953');
         expect(err.message).toContain('lock');
     });
+
+    it('should describe the holder and the wait when provided', () => {
+        const err = new MigrationLockError(741953, {
+            timeoutMs: 5000,
+            holder: {
+                pid: 4242,
+                user: 'app',
+                applicationName: 'api-server',
+                clientAddr: '10.0.0.5/32',
+                backendStart: null,
+                state: 'active',
+                query: 'SELECT 1'
+            }
+        });
+        expect(err.timeoutMs).toBe(5000);
+        expect(err.holder!.pid).toBe(4242);
+        expect(err.message).toContain('after waiting 5000ms');
+        expect(err.message).toContain('Held by pid 4242 (app@10.0.0.5/32, api-server)');
+    });
 });
 
 // ─── MigrationParseError ────────────────────────────────────────────────────
@@ -131,6 +176,28 @@ describe('MigrationParseError', () => {
     });
 });
 
+// ─── MigrationDuplicateVersionError ──────────────────────────────────────────
+
+describe('MigrationDuplicateVersionError', () => {
+    const paths = ['/app/migrations/20260214120000_a.sql', '/app/billing/20260214120000_b.sql'];
+
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationDuplicateVersionError('20260214120000', paths);
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationDuplicateVersionError);
+        expect(err.name).toBe('MigrationDuplicateVersionError');
+    });
+
+    it('should store the version and both paths', () => {
+        const err = new MigrationDuplicateVersionError('20260214120000', paths);
+        expect(err.migration).toBe('20260214120000');
+        expect(err.paths).toEqual(paths);
+        expect(err.message).toBe(
+            'Duplicate migration version 20260214120000: /app/migrations/20260214120000_a.sql and /app/billing/20260214120000_b.sql.'
+        );
+    });
+});
+
 // ─── MigrationRollbackError ─────────────────────────────────────────────────
 
 describe('MigrationRollbackError', () => {
@@ -178,3 +245,144 @@ describe('MigrationFileNotFoundError', () => {
         expect(err.migrationName).toBe('add_users');
     });
 });
+
+// ─── MigrationValidationError ───────────────────────────────────────────────
+
+describe('MigrationValidationError', () => {
+    const findings = [
+        {
+            level: 'error' as const,
+            message: 'CREATE TABLE without IF NOT EXISTS',
+            line: 2,
+            version: '20260214120000',
+            name: 'add_users',
+            filename: '20260214120000_add_users.sql'
+        }
+    ];
+
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationValidationError(findings);
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationValidationError);
+    });
+
+    it('should set name to MigrationValidationError', () => {
+        const err = new MigrationValidationError(findings);
+        expect(err.name).toBe('MigrationValidationError');
+    });
+
+    it('should store the findings', () => {
+        const err = new MigrationValidationError(findings);
+        expect(err.findings).toBe(findings);
+    });
+
+    it('should list each finding with its file and line in the message', () => {
+        const err = new MigrationValidationError(findings);
+        expect(err.message).toContain('1 error(s)');
+        expect(err.message).toContain('20260214120000_add_users.sql:2');
+        expect(err.message).toContain('CREATE TABLE without IF NOT EXISTS');
+    });
+});
+
+// ─── MigrationDirtyError ─────────────────────────────────────────────────────
+
+describe('MigrationDirtyError', () => {
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationDirtyError('20260214120000', 'add_index', 'deadlock detected');
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationDirtyError);
+        expect(err.name).toBe('MigrationDirtyError');
+    });
+
+    it('should store the migration and the recorded error', () => {
+        const err = new MigrationDirtyError('20260214120000', 'add_index', 'deadlock detected');
+        expect(err.migration).toBe('20260214120000');
+        expect(err.migrationName).toBe('add_index');
+        expect(err.error).toBe('deadlock detected');
+    });
+
+    it('should explain how to resolve it', () => {
+        const err = new MigrationDirtyError('20260214120000', 'add_index', null);
+        expect(err.message).toContain('20260214120000_add_index is marked as failed');
+        expect(err.message).toContain('resolve 20260214120000 --as applied|pending');
+    });
+});
+
+// ─── MigrationWaitTimeoutError ───────────────────────────────────────────────
+
+describe('MigrationWaitTimeoutError', () => {
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationWaitTimeoutError(60000, ['20260214120000']);
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationWaitTimeoutError);
+        expect(err.name).toBe('MigrationWaitTimeoutError');
+    });
+
+    it('should list the pending versions', () => {
+        const err = new MigrationWaitTimeoutError(60000, ['20260214120000', '20260214130000']);
+        expect(err.pending).toEqual(['20260214120000', '20260214130000']);
+        expect(err.timeoutMs).toBe(60000);
+        expect(err.message).toContain('Timed out after 60000ms');
+        expect(err.message).toContain(
+            '2 migration(s) still pending: 20260214120000, 20260214130000'
+        );
+    });
+
+    it('should mention the lock holder when nothing is pending', () => {
+        const err = new MigrationWaitTimeoutError(5000, [], {
+            pid: 4242,
+            user: 'app',
+            applicationName: null,
+            clientAddr: null,
+            backendStart: null,
+            state: 'active',
+            query: null
+        });
+        expect(err.holder?.pid).toBe(4242);
+        expect(err.message).toContain('migration lock is still held');
+        expect(err.message).toContain('Lock held by pid 4242 (app)');
+    });
+});
+
+// ─── MigrationHookError ──────────────────────────────────────────────────────
+
+describe('MigrationHookError', () => {
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationHookError('beforeAll', new Error('boom'));
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationHookError);
+        expect(err.name).toBe('MigrationHookError');
+    });
+
+    it('should name the hook and keep the original error', () => {
+        const cause = new Error('snapshot failed');
+        const err = new MigrationHookError('afterEach', cause, '20260214120000', 'add_users');
+        expect(err.message).toBe('afterEach hook failed: snapshot failed');
+        expect(err.hook).toBe('afterEach');
+        expect(err.cause).toBe(cause);
+        expect(err.migration).toBe('20260214120000');
+        expect(err.migrationName).toBe('add_users');
+    });
+
+    it('should handle non-Error values', () => {
+        expect(new MigrationHookError('beforeEach', 'nope').message).toBe(
+            'beforeEach hook failed: nope'
+        );
+    });
+});
+
+// ─── MigrationConfigError ────────────────────────────────────────────────────
+
+describe('MigrationConfigError', () => {
+    it('should be an instance of MigrationError', () => {
+        const err = new MigrationConfigError('bad config', '/app/pg-migrate-runner.config.json');
+        expect(err).toBeInstanceOf(MigrationError);
+        expect(err).toBeInstanceOf(MigrationConfigError);
+        expect(err.name).toBe('MigrationConfigError');
+    });
+
+    it('should store the file path', () => {
+        const err = new MigrationConfigError('bad config', '/app/pg-migrate-runner.config.json');
+        expect(err.filepath).toBe('/app/pg-migrate-runner.config.json');
+    });
+});
@@ -0,0 +1,68 @@
+import { MigrationEventEmitter } from '../src/events';
+import { RollbackStartEvent } from '../src/types';
+
+const payload: RollbackStartEvent = { migrations: [], dryRun: false };
+
+// ─── MigrationEventEmitter ───────────────────────────────────────────────────
+
+describe('MigrationEventEmitter', () => {
+    it('should call listeners with the payload, in order', () => {
+        const emitter = new MigrationEventEmitter();
+        const calls: string[] = [];
+
+        emitter.on('rollback:start', () => calls.push('first'));
+        emitter.on('rollback:start', (p) => calls.push(`second ${p.dryRun}`));
+        emitter.emit('rollback:start', payload);
+
+        expect(calls).toEqual(['first', 'second false']);
+    });
+
+    it('should only call listeners for the emitted event', () => {
+        const emitter = new MigrationEventEmitter();
+        const listener = jest.fn();
+
+        emitter.on('run:complete', listener);
+        emitter.emit('rollback:start', payload);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should remove a listener with off()', () => {
+        const emitter = new MigrationEventEmitter();
+        const listener = jest.fn();
+
+        emitter.on('rollback:start', listener).off('rollback:start', listener);
+        emitter.emit('rollback:start', payload);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should call a once() listener a single time', () => {
+        const emitter = new MigrationEventEmitter();
+        const listener = jest.fn();
+
+        emitter.once('rollback:start', listener);
+        emitter.emit('rollback:start', payload);
+        emitter.emit('rollback:start', payload);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(payload);
+    });
+
+    it('should log and skip a listener that throws', () => {
+        const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+        const emitter = new MigrationEventEmitter(logger);
+        const next = jest.fn();
+
+        emitter.on('rollback:start', () => {
+            throw new Error('telemetry down');
+        });
+        emitter.on('rollback:start', next);
+
+        expect(() => emitter.emit('rollback:start', payload)).not.toThrow();
+        expect(next).toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith(
+            "Listener for 'rollback:start' threw: telemetry down"
+        );
+    });
+});
@@ -2,13 +2,22 @@ import {
     computeChecksum,
     parseMigrationFile,
     parseFilename,
+    parseModuleFilename,
+    parseRepeatableFilename,
+    isRepeatableVersion,
+    describeMigration,
+    parseSeedFile,
+    substituteVariables,
     generateVersion,
     sanitizeName,
+    describeLockHolder,
     DEFAULT_TABLE_NAME,
     DEFAULT_LOCK_ID,
     MIGRATION_FILENAME_REGEX,
     UP_MARKER,
-    DOWN_MARKER
+    DOWN_MARKER,
+    NO_TRANSACTION_DIRECTIVE,
+    splitStatements
 } from '../src/helpers';
 
 // ─── computeChecksum ─────────────────────────────────────────────────────────
@@ -104,6 +113,75 @@ CREATE TABLE users (id serial);
         expect(result!.upSql).toBe('CREATE TABLE users (id serial);');
         expect(result!.downSql).toBe('DROP TABLE IF EXISTS users;');
     });
+
+    it('should default noTransaction to false', () => {
+        const result = parseMigrationFile('-- migrate:up\nSELECT 1;');
+        expect(result!.noTransaction).toBe(false);
+    });
+
+    it('should detect the no-transaction directive in the header', () => {
+        const content = `-- Add enum value
+-- migrate:no-transaction
+-- migrate:up
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'moderator';
+`;
+        const result = parseMigrationFile(content);
+        expect(result!.noTransaction).toBe(true);
+        expect(result!.upSql).toBe("ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'moderator';");
+    });
+
+    it('should ignore the directive outside the header', () => {
+        const content = `-- migrate:up
+-- migrate:no-transaction
+SELECT 1;
+`;
+        expect(parseMigrationFile(content)!.noTransaction).toBe(false);
+    });
+});
+
+// ─── splitStatements ─────────────────────────────────────────────────────────
+
+describe('splitStatements', () => {
+    it('should split on top-level semicolons', () => {
+        expect(splitStatements('SELECT 1;\nSELECT 2;')).toEqual(['SELECT 1', 'SELECT 2']);
+    });
+
+    it('should keep a final statement without a semicolon', () => {
+        expect(splitStatements('SELECT 1; SELECT 2')).toEqual(['SELECT 1', 'SELECT 2']);
+    });
+
+    it('should ignore semicolons in string literals and quoted identifiers', () => {
+        const sql = `INSERT INTO "a;b" VALUES ('x;y', 'it''s;');SELECT 1;`;
+        expect(splitStatements(sql)).toEqual([
+            `INSERT INTO "a;b" VALUES ('x;y', 'it''s;')`,
+            'SELECT 1'
+        ]);
+    });
+
+    it('should honor backslash escapes in E strings', () => {
+        const sql = `SELECT E'a\\';b';SELECT 2;`;
+        expect(splitStatements(sql)).toEqual([`SELECT E'a\\';b'`, 'SELECT 2']);
+    });
+
+    it('should ignore semicolons in dollar-quoted bodies', () => {
+        const sql = `DO $$ BEGIN PERFORM 1; END $$;
+CREATE FUNCTION f() RETURNS int AS $fn$ SELECT 1; $fn$ LANGUAGE sql;`;
+        expect(splitStatements(sql)).toEqual([
+            'DO $$ BEGIN PERFORM 1; END $$',
+            'CREATE FUNCTION f() RETURNS int AS $fn$ SELECT 1; $fn$ LANGUAGE sql'
+        ]);
+    });
+
+    it('should not treat positional parameters as dollar quotes', () => {
+        expect(splitStatements('SELECT $1; SELECT $2;')).toEqual(['SELECT $1', 'SELECT $2']);
+    });
+
+    it('should ignore semicolons in comments and drop comment-only statements', () => {
+        const sql = `-- first; statement
+SELECT 1; /* block; /* nested; */ comment */
+-- trailing comment;`;
+        expect(splitStatements(sql)).toEqual(['-- first; statement\nSELECT 1']);
+    });
 });
 
 // ─── parseFilename ───────────────────────────────────────────────────────────
@@ -156,6 +234,134 @@ describe('parseFilename', () => {
     });
 });
 
+// ─── parseModuleFilename ─────────────────────────────────────────────────────
+
+describe('parseModuleFilename', () => {
+    it.each(['js', 'ts', 'mjs'])('should parse a .%s migration module', (ext) => {
+        expect(parseModuleFilename(`20260214120000_backfill_slugs.${ext}`)).toEqual({
+            version: '20260214120000',
+            name: 'backfill_slugs'
+        });
+    });
+
+    it('should reject SQL files, declaration files and source maps', () => {
+        expect(parseModuleFilename('20260214120000_backfill_slugs.sql')).toBeNull();
+        expect(parseModuleFilename('20260214120000_backfill_slugs.d.ts')).toBeNull();
+        expect(parseModuleFilename('20260214120000_backfill_slugs.js.map')).toBeNull();
+    });
+});
+
+// ─── Repeatable Migrations ───────────────────────────────────────────────────
+
+describe('parseRepeatableFilename', () => {
+    it('should parse R__name.sql with version R__name', () => {
+        expect(parseRepeatableFilename('R__refresh_views.sql')).toEqual({
+            version: 'R__refresh_views',
+            name: 'refresh_views'
+        });
+    });
+
+    it('should reject versioned files and other spellings', () => {
+        expect(parseRepeatableFilename('20260214120000_refresh_views.sql')).toBeNull();
+        expect(parseRepeatableFilename('r__refresh_views.sql')).toBeNull();
+        expect(parseRepeatableFilename('R_refresh_views.sql')).toBeNull();
+        expect(parseRepeatableFilename('R__refresh_views.js')).toBeNull();
+    });
+});
+
+describe('isRepeatableVersion / describeMigration', () => {
+    it('should tell repeatable versions apart', () => {
+        expect(isRepeatableVersion('R__refresh_views')).toBe(true);
+        expect(isRepeatableVersion('20260214120000')).toBe(false);
+    });
+
+    it('should label versioned and repeatable migrations', () => {
+        expect(describeMigration({ version: '20260214120000', name: 'add_users' })).toBe(
+            '20260214120000_add_users'
+        );
+        expect(describeMigration({ version: 'R__refresh_views', name: 'refresh_views' })).toBe(
+            'R__refresh_views'
+        );
+    });
+});
+
+// ─── parseSeedFile ───────────────────────────────────────────────────────────
+
+describe('parseSeedFile', () => {
+    it('should return the trimmed SQL of a run-once seed', () => {
+        expect(parseSeedFile('\nINSERT INTO countries VALUES (1);\n')).toEqual({
+            sql: 'INSERT INTO countries VALUES (1);',
+            always: false
+        });
+    });
+
+    it('should detect the seed:always directive, case-insensitively', () => {
+        expect(parseSeedFile('-- Seed:Always\nREFRESH MATERIALIZED VIEW stats;').always).toBe(true);
+        expect(parseSeedFile('-- seed:always is not set here\nSELECT 1;').always).toBe(false);
+    });
+});
+
+// ─── substituteVariables ─────────────────────────────────────────────────────
+
+describe('substituteVariables', () => {
+    it('should replace every placeholder with its value', () => {
+        expect(
+            substituteVariables('ALTER TABLE t OWNER TO ${owner}; GRANT SELECT ON t TO ${owner};', {
+                owner: 'app_owner'
+            })
+        ).toEqual({
+            sql: 'ALTER TABLE t OWNER TO app_owner; GRANT SELECT ON t TO app_owner;',
+            undefinedVariables: []
+        });
+    });
+
+    it('should report undefined variables once and leave their placeholders', () => {
+        expect(
+            substituteVariables(
+                'CREATE TABLE t () TABLESPACE ${space}; ALTER TABLE t SET TABLESPACE ${space}; SELECT ${toString};',
+                {}
+            )
+        ).toEqual({
+            sql: 'CREATE TABLE t () TABLESPACE ${space}; ALTER TABLE t SET TABLESPACE ${space}; SELECT ${toString};',
+            undefinedVariables: ['space', 'toString']
+        });
+    });
+
+    it('should leave dollar-quoted bodies alone', () => {
+        const sql = 'DO $$ BEGIN PERFORM 1; END $$; SELECT $1, $tag$x$tag$;';
+        expect(substituteVariables(sql, {}).sql).toBe(sql);
+    });
+
+    it('should leave placeholders in comments alone', () => {
+        const sql = '-- runs as ${owner}\n/* ${owner} /* nested ${owner} */ */\nSELECT 1;';
+        expect(substituteVariables(sql, {})).toEqual({ sql, undefinedVariables: [] });
+    });
+
+    it('should resolve placeholders in strings, quoted identifiers and dollar-quoted bodies', () => {
+        const sql = [
+            "SET search_path TO '${schema}';",
+            'CREATE TABLE "${schema}".t (id int);',
+            'CREATE FUNCTION f() RETURNS int AS $fn$ SELECT count(*) FROM ${schema}.t $fn$ LANGUAGE sql;'
+        ].join('\n');
+
+        expect(substituteVariables(sql, { schema: 'tenant_a' }).sql).toBe(
+            [
+                "SET search_path TO 'tenant_a';",
+                'CREATE TABLE "tenant_a".t (id int);',
+                'CREATE FUNCTION f() RETURNS int AS $fn$ SELECT count(*) FROM tenant_a.t $fn$ LANGUAGE sql;'
+            ].join('\n')
+        );
+        expect(substituteVariables(sql, {}).undefinedVariables).toEqual(['schema']);
+    });
+
+    it('should turn an escaped $${name} into a literal ${name}', () => {
+        expect(substituteVariables('SELECT $${owner}, ${owner};', { owner: 'app' })).toEqual({
+            sql: 'SELECT ${owner}, app;',
+            undefinedVariables: []
+        });
+    });
+});
+
 // ─── generateVersion ─────────────────────────────────────────────────────────
 
 describe('generateVersion', () => {
@@ -212,6 +418,38 @@ describe('sanitizeName', () => {
     });
 });
 
+// ─── describeLockHolder ──────────────────────────────────────────────────────
+
+describe('describeLockHolder', () => {
+    const holder = {
+        pid: 4242,
+        user: 'app',
+        applicationName: 'api-server',
+        clientAddr: '10.0.0.5/32',
+        backendStart: '2026-02-14T12:00:00.000Z',
+        state: 'active',
+        query: 'SELECT 1'
+    };
+
+    it('should include pid, user@address, application and start time', () => {
+        expect(describeLockHolder(holder)).toBe(
+            'pid 4242 (app@10.0.0.5/32, api-server, since 2026-02-14T12:00:00.000Z)'
+        );
+    });
+
+    it('should omit missing details', () => {
+        expect(
+            describeLockHolder({
+                ...holder,
+                user: null,
+                clientAddr: null,
+                applicationName: null,
+                backendStart: null
+            })
+        ).toBe('pid 4242');
+    });
+});
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 describe('Constants', () => {
@@ -239,4 +477,8 @@ describe('Constants', () => {
     it('DOWN_MARKER should be "-- migrate:down"', () => {
         expect(DOWN_MARKER).toBe('-- migrate:down');
     });
+
+    it('NO_TRANSACTION_DIRECTIVE should be "-- migrate:no-transaction"', () => {
+        expect(NO_TRANSACTION_DIRECTIVE).toBe('-- migrate:no-transaction');
+    });
 });
@@ -1,4 +1,4 @@
-import { acquireLock, releaseLock } from '../src/lock';
+import { acquireLock, releaseLock, getLockHolder, forceReleaseLock } from '../src/lock';
 import { MigrationLockError } from '../src/errors';
 import { DEFAULT_LOCK_ID } from '../src/helpers';
 
@@ -67,6 +67,142 @@ describe('acquireLock', () => {
     });
 });
 
+// ─── acquireLock — wait strategy ─────────────────────────────────────────────
+
+describe("acquireLock with strategy: 'wait'", () => {
+    const holderRow = {
+        pid: 4242,
+        usename: 'app',
+        application_name: 'api-server',
+        client_addr: '10.0.0.5/32',
+        backend_start: new Date('2026-02-14T12:00:00Z'),
+        state: 'active',
+        query: 'SELECT 1'
+    };
+
+    // pg_try_advisory_lock fails `failures` times, then succeeds
+    const createClient = (failures: number) => {
+        let attempts = 0;
+        return {
+            query: jest.fn().mockImplementation((sql: string) => {
+                if (sql.includes('pg_try_advisory_lock')) {
+                    return { rows: [{ acquired: attempts++ >= failures }] };
+                }
+                return { rows: [holderRow] };
+            })
+        };
+    };
+
+    const mockLogger = () => ({
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn()
+    });
+
+    it('should retry until the lock is free', async () => {
+        const client = createClient(3);
+
+        await acquireLock(client as any, DEFAULT_LOCK_ID, undefined, {
+            strategy: 'wait',
+            timeoutMs: 1000,
+            pollIntervalMs: 1
+        });
+
+        const tries = client.query.mock.calls.filter((c: any[]) =>
+            c[0].includes('pg_try_advisory_lock')
+        );
+        expect(tries).toHaveLength(4);
+    });
+
+    it('should log the lock holder once per holder', async () => {
+        const client = createClient(3);
+        const logger = mockLogger();
+
+        await acquireLock(client as any, DEFAULT_LOCK_ID, logger, {
+            strategy: 'wait',
+            timeoutMs: 1000,
+            pollIntervalMs: 1
+        });
+
+        expect(logger.info).toHaveBeenCalledTimes(1);
+        expect(logger.info).toHaveBeenCalledWith(
+            expect.stringContaining('held by pid 4242 (app@10.0.0.5/32, api-server')
+        );
+    });
+
+    it('should throw MigrationLockError with the holder when the timeout runs out', async () => {
+        const client = createClient(Infinity);
+
+        const err = await acquireLock(client as any, 12345, undefined, {
+            strategy: 'wait',
+            timeoutMs: 20,
+            pollIntervalMs: 5
+        }).catch((e) => e);
+
+        expect(err).toBeInstanceOf(MigrationLockError);
+        expect(err.lockId).toBe(12345);
+        expect(err.timeoutMs).toBe(20);
+        expect(err.holder.pid).toBe(4242);
+    });
+
+    it('should not wait with the default fail strategy', async () => {
+        const client = createClient(1);
+
+        await expect(acquireLock(client as any)).rejects.toThrow(MigrationLockError);
+        expect(client.query).toHaveBeenCalledTimes(1);
+    });
+});
+
+// ─── getLockHolder ───────────────────────────────────────────────────────────
+
+describe('getLockHolder', () => {
+    it('should query pg_locks joined with pg_stat_activity for the lock key', async () => {
+        const mockClient = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+        await getLockHolder(mockClient as any, 99999);
+
+        const [sql, params] = mockClient.query.mock.calls[0];
+        expect(sql).toContain('pg_locks');
+        expect(sql).toContain('pg_stat_activity');
+        expect(sql).toContain('((l.classid::bigint << 32) | l.objid::bigint) = $1');
+        expect(params).toEqual([99999]);
+    });
+
+    it('should return null when nobody holds the lock', async () => {
+        const mockClient = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+        expect(await getLockHolder(mockClient as any)).toBeNull();
+    });
+
+    it('should map the row to a LockHolder', async () => {
+        const mockClient = {
+            query: jest.fn().mockResolvedValue({
+                rows: [
+                    {
+                        pid: 4242,
+                        usename: 'app',
+                        application_name: '',
+                        client_addr: null,
+                        backend_start: new Date('2026-02-14T12:00:00Z'),
+                        state: 'idle in transaction',
+                        query: 'SELECT 1'
+                    }
+                ]
+            })
+        };
+
+        expect(await getLockHolder(mockClient as any)).toEqual({
+            pid: 4242,
+            user: 'app',
+            applicationName: null,
+            clientAddr: null,
+            backendStart: '2026-02-14T12:00:00.000Z',
+            state: 'idle in transaction',
+            query: 'SELECT 1'
+        });
+    });
+});
+
 // ─── releaseLock ─────────────────────────────────────────────────────────────
 
 describe('releaseLock', () => {
@@ -114,3 +250,96 @@ describe('releaseLock', () => {
         expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('connection lost'));
     });
 });
+
+// ─── forceReleaseLock ────────────────────────────────────────────────────────
+
+describe('forceReleaseLock', () => {
+    const holderRow = {
+        pid: 4242,
+        usename: 'app',
+        application_name: 'api-server',
+        client_addr: '10.0.0.5/32',
+        backend_start: new Date('2026-02-14T12:00:00Z'),
+        state: 'idle in transaction',
+        query: 'SELECT 1'
+    };
+
+    it('should not terminate anything when the lock is free', async () => {
+        const mockClient = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+
+        expect(await forceReleaseLock(mockClient as any)).toEqual({
+            holder: null,
+            terminated: false,
+            holderChanged: false
+        });
+        expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should terminate the holding backend', async () => {
+        const mockClient = {
+            query: jest
+                .fn()
+                .mockResolvedValueOnce({ rows: [holderRow] })
+                .mockResolvedValueOnce({ rows: [{ terminated: true }] })
+        };
+        const mockLogger = {
+            info: jest.fn(),
+            warn: jest.fn(),
+            error: jest.fn(),
+            debug: jest.fn()
+        };
+
+        const result = await forceReleaseLock(mockClient as any, 99999, mockLogger);
+
+        const [sql, params] = mockClient.query.mock.calls[1];
+        expect(sql).toContain('pg_terminate_backend(l.pid)');
+        expect(sql).toContain('l.pid = $2');
+        expect(params).toEqual([99999, 4242]);
+        expect(result.terminated).toBe(true);
+        expect(result.holderChanged).toBe(false);
+        expect(result.holder?.pid).toBe(4242);
+        expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('pid 4242'));
+    });
+
+    it('should report when the backend could not be terminated', async () => {
+        const mockClient = {
+            query: jest
+                .fn()
+                .mockResolvedValueOnce({ rows: [holderRow] })
+                .mockResolvedValueOnce({ rows: [{ terminated: false }] })
+        };
+
+        const result = await forceReleaseLock(mockClient as any);
+        expect(result.terminated).toBe(false);
+        expect(result.holderChanged).toBe(false);
+    });
+
+    it('should not terminate a different holder than the expected one', async () => {
+        const mockClient = {
+            query: jest.fn().mockResolvedValueOnce({ rows: [{ ...holderRow, pid: 5151 }] })
+        };
+
+        const result = await forceReleaseLock(mockClient as any, DEFAULT_LOCK_ID, undefined, {
+            expectedPid: 4242
+        });
+
+        expect(result).toMatchObject({ terminated: false, holderChanged: true });
+        expect(result.holder?.pid).toBe(5151);
+        expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not terminate anything when the lock changes hands before the terminate', async () => {
+        const mockClient = {
+            query: jest
+                .fn()
+                .mockResolvedValueOnce({ rows: [holderRow] })
+                .mockResolvedValueOnce({ rows: [] })
+        };
+
+        const result = await forceReleaseLock(mockClient as any, DEFAULT_LOCK_ID, undefined, {
+            expectedPid: 4242
+        });
+
+        expect(result).toMatchObject({ terminated: false, holderChanged: true });
+    });
+});
@@ -1,7 +1,20 @@
 import { MigrationRunner } from '../src/runner';
-import { computeChecksum } from '../src/helpers';
-import { MigrationLockError } from '../src/errors';
+import { MemoryMigrationSource } from '../src/sources';
+import { computeChecksum, parseMigrationFile } from '../src/helpers';
+import {
+    MigrationError,
+    ChecksumMismatchError,
+    MigrationLockError,
+    MigrationRollbackError,
+    MigrationFileNotFoundError,
+    MigrationValidationError,
+    MigrationDirtyError,
+    MigrationWaitTimeoutError,
+    MigrationHookError,
+    MigrationParseError
+} from '../src/errors';
 import { DEFAULT_TABLE_NAME } from '../src/helpers';
+import { MigrationConfig, MigrationSource } from '../src/types';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
@@ -13,6 +26,19 @@ interface MockPool {
     end: jest.Mock;
 }
 
+/**
+ * A config-mode runner over a mock pool, with locking and logging off unless `config`
+ * turns them on.
+ */
+function createTestRunner(pool: MockPool, config: Partial<MigrationConfig>): MigrationRunner {
+    return new MigrationRunner({ pool: pool as any, useLock: false, logger: false, ...config });
+}
+
+/** The (trimmed) SQL of every query a mock client received, in order. */
+function clientQueries(client: { query: jest.Mock }): string[] {
+    return client.query.mock.calls.map((c: any[]) => c[0].trim());
+}
+
 // ─── Core Runner Operations ──────────────────────────────────────────────────
 
 describe('MigrationRunner', () => {
@@ -330,8 +356,171 @@ DROP TABLE IF EXISTS test;
         });
     });
 
+    // ─── migrate({ to }) ─────────────────────────────────────────────────
+
+    describe('migrate({ to })', () => {
+        const template = (table: string) =>
+            `-- migrate:up\nCREATE TABLE ${table} (id int);\n-- migrate:down\nDROP TABLE ${table};`;
+
+        beforeEach(() => {
+            fs.writeFileSync(path.join(tmpDir, '20260214110000_first.sql'), template('first'));
+            fs.writeFileSync(path.join(tmpDir, '20260214120000_second.sql'), template('second'));
+            fs.writeFileSync(path.join(tmpDir, '20260214130000_third.sql'), template('third'));
+        });
+
+        it('should apply pending migrations up to and including the target', async () => {
+            const mockClient = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                release: jest.fn()
+            };
+            mockPool.connect.mockResolvedValue(mockClient as any);
+
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ to: '20260214120000' });
+
+            expect(summary.applied.map((r) => r.name)).toEqual(['first', 'second']);
+            expect(summary.total_pending).toBe(3);
+            expect(summary.total_applied).toBe(2);
+            expect(summary.skipped).toEqual([{ version: '20260214130000', name: 'third' }]);
+
+            const clientCalls = mockClient.query.mock.calls.map((c: any[]) => c[0]);
+            expect(clientCalls).not.toContain('CREATE TABLE third (id int);');
+        });
+
+        it('should report skipped migrations in dry-run mode', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ to: '20260214110000', dryRun: true });
+
+            expect(summary.applied.map((r) => r.name)).toEqual(['first']);
+            expect(summary.skipped.map((s) => s.name)).toEqual(['second', 'third']);
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should apply nothing when the target is already applied', async () => {
+            mockPool.query
+                .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+                .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+                .mockResolvedValueOnce({
+                    rows: [
+                        {
+                            id: 1,
+                            version: '20260214110000',
+                            name: 'first',
+                            applied_at: '2026-02-14T11:00:00Z',
+                            execution_time_ms: 10,
+                            checksum: computeChecksum('CREATE TABLE first (id int);')
+                        }
+                    ],
+                    rowCount: 1
+                });
+
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ to: '20260214110000' });
+
+            expect(summary.total_applied).toBe(0);
+            expect(summary.skipped.map((s) => s.name)).toEqual(['second', 'third']);
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should reject a target version that has no migration file', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+            await expect(runner.migrate({ to: '20990101000000' })).rejects.toThrow(MigrationError);
+            expect(mockPool.query).not.toHaveBeenCalled();
+        });
+
+        it('should return an empty skipped list without a target', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ dryRun: true });
+
+            expect(summary.skipped).toEqual([]);
+            expect(summary.total_applied).toBe(3);
+        });
+    });
+
     // ─── rollback ────────────────────────────────────────────────────────
 
+    describe("migrate({ atomic: 'all' })", () => {
+        let mockClient: { query: jest.Mock; release: jest.Mock };
+
+        beforeEach(() => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214110000_first.sql'),
+                '-- migrate:up\nCREATE TABLE first (id int);'
+            );
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_second.sql'),
+                '-- migrate:up\nCREATE TABLE second (id int);'
+            );
+
+            mockClient = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                release: jest.fn()
+            };
+            mockPool.connect.mockResolvedValue(mockClient);
+        });
+
+        it('should apply the whole batch in one transaction on one client', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ atomic: 'all' });
+
+            expect(summary.total_applied).toBe(2);
+            expect(mockPool.connect).toHaveBeenCalledTimes(1);
+
+            const calls = clientQueries(mockClient);
+            expect(calls.filter((c: string) => c === 'BEGIN')).toHaveLength(1);
+            expect(calls[0]).toBe('BEGIN');
+            expect(calls[calls.length - 1]).toBe('COMMIT');
+            expect(calls.filter((c: string) => c.startsWith('INSERT'))).toHaveLength(2);
+        });
+
+        it('should roll back the whole batch when any migration fails', async () => {
+            mockClient.query.mockImplementation((sql: string) => {
+                if (sql.includes('second')) throw new Error('relation already exists');
+                return { rows: [], rowCount: 0 };
+            });
+
+            const runner = new MigrationRunner({
+                pool: mockPool as any,
+                migrationsDir: tmpDir,
+                useLock: false,
+                logger: false
+            });
+            const summary = await runner.migrate({ atomic: 'all' });
+
+            expect(summary.applied).toEqual([]);
+            expect(summary.total_applied).toBe(0);
+            expect(summary.failed!.name).toBe('second');
+            expect(summary.failed!.error).toBe('relation already exists');
+
+            const calls = clientQueries(mockClient);
+            expect(calls).toContain('ROLLBACK');
+            expect(calls).not.toContain('COMMIT');
+            expect(mockClient.release).toHaveBeenCalled();
+        });
+
+        it('should reject non-transactional files before executing anything', async () => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214130000_add_index.sql'),
+                '-- migrate:no-transaction\n-- migrate:up\nCREATE INDEX CONCURRENTLY IF NOT EXISTS i ON first (id);'
+            );
+
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            await expect(runner.migrate({ atomic: 'all' })).rejects.toThrow(
+                /20260214130000_add_index .*cannot run with atomic: 'all'/
+            );
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should preview the batch in dry-run mode without connecting', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.migrate({ atomic: 'all', dryRun: true });
+
+            expect(summary.total_applied).toBe(2);
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+    });
+
     describe('rollback', () => {
         it('should rollback the last applied migration', async () => {
             const content = `-- migrate:up\nCREATE TABLE test (id int);\n-- migrate:down\nDROP TABLE IF EXISTS test;`;
@@ -498,6 +687,112 @@ DROP TABLE IF EXISTS test;
         });
     });
 
+    // ─── rollback({ toVersion }) ─────────────────────────────────────────
+
+    describe('rollback({ toVersion })', () => {
+        const template = (table: string) =>
+            `-- migrate:up\nCREATE TABLE ${table} (id int);\n-- migrate:down\nDROP TABLE IF EXISTS ${table};`;
+
+        const record = (id: number, version: string, name: string) => ({
+            id,
+            version,
+            name,
+            applied_at: '2026-02-14T11:00:00Z',
+            execution_time_ms: 10,
+            checksum: computeChecksum(`CREATE TABLE ${name} (id int);`)
+        });
+
+        let mockClient: { query: jest.Mock; release: jest.Mock };
+
+        beforeEach(() => {
+            fs.writeFileSync(path.join(tmpDir, '20260214110000_first.sql'), template('first'));
+            fs.writeFileSync(path.join(tmpDir, '20260214120000_second.sql'), template('second'));
+            fs.writeFileSync(path.join(tmpDir, '20260214130000_third.sql'), template('third'));
+
+            const records = [
+                record(1, '20260214110000', 'first'),
+                record(2, '20260214120000', 'second'),
+                record(3, '20260214130000', 'third')
+            ];
+            mockPool.query.mockImplementation((sql: string) =>
+                sql.trim().startsWith('SELECT')
+                    ? { rows: records, rowCount: records.length }
+                    : { rows: [], rowCount: 0 }
+            );
+
+            mockClient = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                release: jest.fn()
+            };
+            mockPool.connect.mockResolvedValue(mockClient as any);
+        });
+
+        it('should roll back every migration newer than the target, newest first', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.rollback(1, { toVersion: '20260214110000' });
+
+            expect(summary.rolledBack.map((r) => r.name)).toEqual(['third', 'second']);
+            expect(summary.total_rolled_back).toBe(2);
+
+            const clientCalls = mockClient.query.mock.calls.map((c: any[]) => c[0]);
+            expect(clientCalls.filter((c: string) => c === 'BEGIN')).toHaveLength(2);
+            expect(clientCalls).not.toContain('DROP TABLE IF EXISTS first;');
+        });
+
+        it('should roll back nothing when the target is the latest applied migration', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.rollback(1, { toVersion: '20260214130000' });
+
+            expect(summary.total_rolled_back).toBe(0);
+            expect(mockClient.query).not.toHaveBeenCalled();
+        });
+
+        it('should preview the range in dry-run mode', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const summary = await runner.rollback(1, {
+                toVersion: '20260214110000',
+                dryRun: true
+            });
+
+            expect(summary.rolledBack.map((r) => r.name)).toEqual(['third', 'second']);
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should refuse before executing anything when a migration has no DOWN section', async () => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_second.sql'),
+                '-- migrate:up\nCREATE TABLE second (id int);'
+            );
+
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+            await expect(runner.rollback(1, { toVersion: '20260214110000' })).rejects.toThrow(
+                MigrationRollbackError
+            );
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should refuse before executing anything when a migration file is missing', async () => {
+            fs.rmSync(path.join(tmpDir, '20260214120000_second.sql'));
+
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+            await expect(runner.rollback(1, { toVersion: '20260214110000' })).rejects.toThrow(
+                MigrationFileNotFoundError
+            );
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+
+        it('should reject an unknown target version', async () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+            await expect(runner.rollback(1, { toVersion: '20990101000000' })).rejects.toThrow(
+                MigrationError
+            );
+            expect(mockPool.connect).not.toHaveBeenCalled();
+        });
+    });
+
     // ─── createMigrationFile ─────────────────────────────────────────────
 
     describe('createMigrationFile', () => {
@@ -526,6 +821,15 @@ DROP TABLE IF EXISTS test;
             expect(content).toContain('One logical change per migration');
         });
 
+        it('should produce a template whose UP section starts after the header', () => {
+            const runner = new MigrationRunner(mockPool as any, tmpDir);
+            const result = runner.createMigrationFile('test template');
+            const sections = parseMigrationFile(fs.readFileSync(result.filepath, 'utf-8'));
+
+            expect(sections!.upSql.startsWith('-- TODO')).toBe(true);
+            expect(sections!.noTransaction).toBe(false);
+        });
+
         it('should create the migrations directory if it does not exist', () => {
             const newDir = path.join(tmpDir, 'new', 'subdir');
             const runner = new MigrationRunner(mockPool as any, newDir);
@@ -768,6 +1072,31 @@ describe('MigrationRunner — Config Constructor', () => {
         const createCall = mockPool.query.mock.calls[0][0];
         expect(createCall).toContain(DEFAULT_TABLE_NAME);
     });
+
+    it('should merge several migrationsDir directories, recursively when asked', () => {
+        const sql = '-- migrate:up\nSELECT 1;\n-- migrate:down\nSELECT 2;';
+        fs.mkdirSync(path.join(tmpDir, 'core', '2025'), { recursive: true });
+        fs.mkdirSync(path.join(tmpDir, 'billing'));
+        fs.writeFileSync(path.join(tmpDir, 'core', '20260101000000_users.sql'), sql);
+        fs.writeFileSync(path.join(tmpDir, 'core', '2025', '20251201000000_orders.sql'), sql);
+        fs.writeFileSync(path.join(tmpDir, 'billing', '20251215000000_invoices.sql'), sql);
+
+        const runner = new MigrationRunner({
+            pool: {} as any,
+            migrationsDir: [path.join(tmpDir, 'core'), path.join(tmpDir, 'billing')],
+            recursive: true,
+            logger: false
+        });
+
+        expect(runner.readMigrationFiles().map((f) => f.filename)).toEqual([
+            '2025/20251201000000_orders.sql',
+            '20251215000000_invoices.sql',
+            '20260101000000_users.sql'
+        ]);
+        expect(runner.createMigrationFile('add_email').filepath).toContain(
+            path.join(tmpDir, 'core', '')
+        );
+    });
 });
 
 // ─── Dry-Run Mode Tests ──────────────────────────────────────────────────────
@@ -942,75 +1271,2260 @@ describe('MigrationRunner — Dry-Run Mode', () => {
     });
 });
 
-// ─── Advisory Locking in Runner Tests ────────────────────────────────────────
+// ─── Strict Checksums ────────────────────────────────────────────────────────
 
-describe('MigrationRunner — Advisory Locking', () => {
+describe('MigrationRunner — Strict Checksums', () => {
     let tmpDir: string;
+    let mockPool: MockPool;
+
+    const template = (table: string) =>
+        `-- migrate:up\nCREATE TABLE ${table} (id int);\n-- migrate:down\nDROP TABLE IF EXISTS ${table};`;
+
+    let mockClient: { query: jest.Mock; release: jest.Mock };
 
     beforeEach(() => {
-        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-lock-test-'));
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-checksum-test-'));
+        mockClient = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.includes('pg_try_advisory_lock')
+                        ? { rows: [{ acquired: true }] }
+                        : { rows: [], rowCount: 0 }
+                ),
+            release: jest.fn()
+        };
+        fs.writeFileSync(path.join(tmpDir, '20260214110000_first.sql'), template('first'));
+        fs.writeFileSync(path.join(tmpDir, '20260214120000_second.sql'), template('second'));
+        fs.writeFileSync(path.join(tmpDir, '20260214130000_third.sql'), template('third'));
+
+        // first + second applied, both with stale checksums; third pending
+        const records = [
+            {
+                id: 1,
+                version: '20260214110000',
+                name: 'first',
+                applied_at: '2026-02-14T11:00:00Z',
+                execution_time_ms: 10,
+                checksum: 'stale00000000001'
+            },
+            {
+                id: 2,
+                version: '20260214120000',
+                name: 'second',
+                applied_at: '2026-02-14T12:00:00Z',
+                execution_time_ms: 10,
+                checksum: 'stale00000000002'
+            }
+        ];
+
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation((sql: string) =>
+                    sql.trim().startsWith('SELECT')
+                        ? { rows: records, rowCount: records.length }
+                        : { rows: [], rowCount: 0 }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
     });
 
     afterEach(() => {
         fs.rmSync(tmpDir, { recursive: true, force: true });
     });
 
-    describe('migrate() with locking', () => {
-        it('should acquire and release lock when useLock is true', async () => {
-            fs.writeFileSync(
-                path.join(tmpDir, '20260214120000_test.sql'),
-                '-- migrate:up\nCREATE TABLE test (id int);\n-- migrate:down\nDROP TABLE IF EXISTS test;'
-            );
-
-            const lockClient = {
-                query: jest
-                    .fn()
-                    .mockResolvedValueOnce({ rows: [{ acquired: true }] })
-                    .mockResolvedValueOnce({ rows: [] }),
-                release: jest.fn()
-            };
-
-            const migrationClient = {
-                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
-                release: jest.fn()
-            };
-
-            let connectCallCount = 0;
-            const mockPool = {
-                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
-                connect: jest.fn().mockImplementation(() => {
-                    connectCallCount++;
-                    return connectCallCount === 1 ? lockClient : migrationClient;
-                }),
-                end: jest.fn()
-            };
+    it('should list every drifted migration from verifyChecksums()', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const mismatches = await runner.verifyChecksums();
+
+        expect(mismatches).toEqual([
+            {
+                version: '20260214110000',
+                name: 'first',
+                expected: 'stale00000000001',
+                actual: computeChecksum('CREATE TABLE first (id int);')
+            },
+            {
+                version: '20260214120000',
+                name: 'second',
+                expected: 'stale00000000002',
+                actual: computeChecksum('CREATE TABLE second (id int);')
+            }
+        ]);
+    });
 
-            const runner = new MigrationRunner({
-                pool: mockPool as any,
-                migrationsDir: tmpDir,
-                useLock: true
-            });
+    it('should abort migrate() before applying anything', async () => {
+        const runner = new MigrationRunner({
+            pool: mockPool as any,
+            migrationsDir: tmpDir,
+            strictChecksums: true
+        });
 
+        try {
             await runner.migrate();
+            fail('Should have thrown');
+        } catch (err: any) {
+            expect(err).toBeInstanceOf(ChecksumMismatchError);
+            expect(err.mismatches.map((m: any) => m.name)).toEqual(['first', 'second']);
+        }
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
 
-            expect(lockClient.query).toHaveBeenCalledWith(
-                'SELECT pg_try_advisory_lock($1) AS acquired',
-                expect.any(Array)
-            );
+    it('should abort rollback() before rolling back anything', async () => {
+        const runner = new MigrationRunner({
+            pool: mockPool as any,
+            migrationsDir: tmpDir,
+            strictChecksums: true
+        });
 
-            expect(lockClient.query).toHaveBeenCalledWith(
-                'SELECT pg_advisory_unlock($1)',
-                expect.any(Array)
-            );
+        await expect(runner.rollback(1)).rejects.toThrow(ChecksumMismatchError);
+        // The only client it takes is the lock's own
+        expect(mockPool.connect).toHaveBeenCalledTimes(1);
+        expect(clientQueries(mockClient)).not.toContain('BEGIN');
+    });
 
-            expect(lockClient.release).toHaveBeenCalled();
+    it('should ignore drift when strictChecksums is false', async () => {
+        const runner = new MigrationRunner({
+            pool: mockPool as any,
+            migrationsDir: tmpDir,
+            strictChecksums: false,
+            useLock: false
         });
 
-        it('should NOT acquire lock when useLock is false', async () => {
-            fs.writeFileSync(
-                path.join(tmpDir, '20260214120000_test.sql'),
-                '-- migrate:up\nCREATE TABLE test (id int);\n-- migrate:down\nDROP TABLE IF EXISTS test;'
-            );
+        const summary = await runner.migrate();
+        expect(summary.applied.map((r) => r.name)).toEqual(['third']);
+    });
+
+    it('should default to strict mode when the CI env var is set', async () => {
+        const originalCI = process.env.CI;
+        process.env.CI = 'true';
+
+        try {
+            const runner = new MigrationRunner({ pool: mockPool as any, migrationsDir: tmpDir });
+            await expect(runner.migrate()).rejects.toThrow(ChecksumMismatchError);
+        } finally {
+            if (originalCI === undefined) delete process.env.CI;
+            else process.env.CI = originalCI;
+        }
+    });
+
+    it('should default to non-strict mode for the legacy constructor', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.migrate({ dryRun: true });
+
+        expect(summary.total_applied).toBe(1);
+    });
+});
+
+// ─── Repair ──────────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Repair', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+
+    const template = (table: string) =>
+        `-- migrate:up\nCREATE TABLE ${table} (id int);\n-- migrate:down\nDROP TABLE IF EXISTS ${table};`;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-repair-test-'));
+        fs.writeFileSync(path.join(tmpDir, '20260214110000_first.sql'), template('first'));
+        fs.writeFileSync(path.join(tmpDir, '20260214120000_second.sql'), template('second'));
+        fs.writeFileSync(path.join(tmpDir, '20260214130000_third.sql'), template('third'));
+
+        // first + second drifted, third matches
+        const records = [
+            { id: 1, version: '20260214110000', name: 'first', checksum: 'stale00000000001' },
+            { id: 2, version: '20260214120000', name: 'second', checksum: 'stale00000000002' },
+            {
+                id: 3,
+                version: '20260214130000',
+                name: 'third',
+                checksum: computeChecksum('CREATE TABLE third (id int);')
+            }
+        ];
+
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation((sql: string) =>
+                    sql.trim().startsWith('SELECT')
+                        ? { rows: records, rowCount: records.length }
+                        : { rows: [], rowCount: 0 }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should update drifted checksums and record an audit entry', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.repair({ repairedBy: 'alice' });
+
+        expect(summary.dryRun).toBe(false);
+        expect(summary.repaired).toEqual([
+            {
+                version: '20260214110000',
+                name: 'first',
+                before: 'stale00000000001',
+                after: computeChecksum('CREATE TABLE first (id int);')
+            },
+            {
+                version: '20260214120000',
+                name: 'second',
+                before: 'stale00000000002',
+                after: computeChecksum('CREATE TABLE second (id int);')
+            }
+        ]);
+
+        const calls = mockClient.query.mock.calls;
+        expect(calls[0][0]).toBe('BEGIN');
+        expect(calls[calls.length - 1][0]).toBe('COMMIT');
+        expect(
+            calls.some((c: any[]) =>
+                c[0].includes('CREATE TABLE IF NOT EXISTS schema_migrations_repairs')
+            )
+        ).toBe(true);
+
+        const updates = calls.filter((c: any[]) => c[0].startsWith('UPDATE'));
+        expect(updates.map((c: any[]) => c[1])).toEqual([
+            [computeChecksum('CREATE TABLE first (id int);'), '20260214110000'],
+            [computeChecksum('CREATE TABLE second (id int);'), '20260214120000']
+        ]);
+
+        const audits = calls.filter((c: any[]) =>
+            c[0].startsWith('INSERT INTO schema_migrations_repairs')
+        );
+        expect(audits).toHaveLength(2);
+        expect(audits[0][1]).toEqual([
+            '20260214110000',
+            'first',
+            'stale00000000001',
+            computeChecksum('CREATE TABLE first (id int);'),
+            'alice'
+        ]);
+    });
+
+    it('should only repair the requested versions', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.repair({ versions: ['20260214120000', '20260214130000'] });
+
+        expect(summary.repaired.map((r) => r.name)).toEqual(['second']);
+    });
+
+    it('should not write anything in dry-run mode', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.repair({ dryRun: true });
+
+        expect(summary.dryRun).toBe(true);
+        expect(summary.repaired).toHaveLength(2);
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject versions that have not been applied', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+        await expect(runner.repair({ versions: ['20990101000000'] })).rejects.toThrow(
+            MigrationError
+        );
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject versions whose file is missing', async () => {
+        fs.rmSync(path.join(tmpDir, '20260214110000_first.sql'));
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+        await expect(runner.repair({ versions: ['20260214110000'] })).rejects.toThrow(
+            MigrationFileNotFoundError
+        );
+    });
+
+    it('should roll back the transaction if an update fails', async () => {
+        mockClient.query.mockImplementation((sql: string) => {
+            if (sql.startsWith('UPDATE')) throw new Error('permission denied');
+            return { rows: [], rowCount: 0 };
+        });
+
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+
+        await expect(runner.repair()).rejects.toThrow('permission denied');
+        const calls = mockClient.query.mock.calls.map((c: any[]) => c[0]);
+        expect(calls).toContain('ROLLBACK');
+        expect(mockClient.release).toHaveBeenCalled();
+    });
+});
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Validation', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockLogger: { info: jest.Mock; warn: jest.Mock; error: jest.Mock; debug: jest.Mock };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-validate-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_clean.sql'),
+            '-- migrate:up\nCREATE TABLE IF NOT EXISTS clean (id int);\n-- migrate:down\nDROP TABLE IF EXISTS clean CASCADE;'
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_sloppy.sql'),
+            '-- migrate:up\nCREATE TABLE sloppy (id int);\n-- migrate:down\nDROP TABLE IF EXISTS sloppy CASCADE;'
+        );
+
+        mockPool = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            connect: jest.fn().mockResolvedValue({
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                release: jest.fn()
+            }),
+            end: jest.fn()
+        };
+        mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should not validate by default', async () => {
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            logger: mockLogger
+        }).migrate();
+
+        expect(summary.validation).toEqual([]);
+        expect(summary.total_applied).toBe(2);
+    });
+
+    it('should report findings and continue in warn mode', async () => {
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            validate: 'warn',
+            logger: mockLogger
+        }).migrate();
+
+        expect(summary.total_applied).toBe(2);
+        expect(summary.validation).toContainEqual(
+            expect.objectContaining({
+                level: 'error',
+                version: '20260214120000',
+                name: 'sloppy',
+                filename: '20260214120000_sloppy.sql',
+                line: 1
+            })
+        );
+        expect(mockLogger.error).toHaveBeenCalledWith(
+            expect.stringContaining('CREATE TABLE without IF NOT EXISTS')
+        );
+    });
+
+    it('should abort before acquiring the lock in error mode', async () => {
+        const runner = new MigrationRunner({
+            pool: mockPool as any,
+            migrationsDir: tmpDir,
+            useLock: true,
+            validate: 'error',
+            logger: mockLogger
+        });
+
+        try {
+            await runner.migrate();
+            fail('Should have thrown');
+        } catch (err: any) {
+            expect(err).toBeInstanceOf(MigrationValidationError);
+            expect(err.findings.every((f: any) => f.level === 'error')).toBe(true);
+            expect(err.findings[0].name).toBe('sloppy');
+        }
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should pass error mode when only warnings are found', async () => {
+        fs.rmSync(path.join(tmpDir, '20260214120000_sloppy.sql'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_truncate.sql'),
+            '-- migrate:up\nTRUNCATE logs;\n-- migrate:down\nSELECT 1;'
+        );
+
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            validate: 'error',
+            logger: mockLogger
+        }).migrate();
+
+        expect(summary.total_applied).toBe(2);
+        expect(summary.validation.map((f) => f.level)).toEqual(['warning']);
+    });
+
+    it('should let MigrateOptions.validate override the config', async () => {
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            validate: 'error',
+            logger: mockLogger
+        }).migrate({ validate: 'off', dryRun: true });
+
+        expect(summary.validation).toEqual([]);
+        expect(summary.total_applied).toBe(2);
+    });
+
+    it('should only validate migrations within the target', async () => {
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            validate: 'error',
+            logger: mockLogger
+        }).migrate({ to: '20260214110000' });
+
+        expect(summary.validation).toEqual([]);
+        expect(summary.total_applied).toBe(1);
+    });
+});
+
+// ─── No-Transaction Migrations ───────────────────────────────────────────────
+
+describe('MigrationRunner — No-Transaction Migrations', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-notx-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_add_index.sql'),
+            `-- migrate:no-transaction
+-- migrate:up
+CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_a ON t (a);
+CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_b ON t (b);
+
+-- migrate:down
+DROP INDEX CONCURRENTLY IF EXISTS idx_b;
+DROP INDEX CONCURRENTLY IF EXISTS idx_a;
+`
+        );
+
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should mark files with the directive as noTransaction', () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        expect(runner.readMigrationFiles()[0].noTransaction).toBe(true);
+    });
+
+    it('should run each statement without BEGIN/COMMIT, then record the migration', async () => {
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.migrate();
+
+        expect(summary.total_applied).toBe(1);
+        const calls = clientQueries(mockClient);
+        expect(calls).not.toContain('BEGIN');
+        expect(calls).not.toContain('COMMIT');
+        expect(calls[0]).toBe('CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_a ON t (a)');
+        expect(calls[1]).toBe('CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_b ON t (b)');
+        expect(calls[2]).toMatch(/^INSERT INTO schema_migrations/);
+    });
+
+    it('should record a failed (dirty) migration instead of issuing ROLLBACK', async () => {
+        mockClient.query.mockImplementation((sql: string) => {
+            if (sql.includes('idx_b')) throw new Error('deadlock detected');
+            return { rows: [], rowCount: 0 };
+        });
+
+        const runner = new MigrationRunner({
+            pool: mockPool as any,
+            migrationsDir: tmpDir,
+            useLock: false,
+            logger: false
+        });
+        const summary = await runner.migrate();
+
+        expect(summary.failed!.error).toBe('deadlock detected');
+        expect(clientQueries(mockClient)).not.toContain('ROLLBACK');
+
+        const insert = mockClient.query.mock.calls.find((c: any[]) =>
+            c[0].trim().startsWith('INSERT')
+        );
+        expect(insert![0]).toContain("'failed'");
+        expect(insert![1]).toEqual([
+            '20260214120000',
+            'add_index',
+            expect.any(Number),
+            expect.any(String),
+            'deadlock detected'
+        ]);
+        expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should roll back statement by statement without a transaction', async () => {
+        const checksum = new MigrationRunner(mockPool as any, tmpDir).readMigrationFiles()[0]
+            .checksum;
+        mockPool.query.mockImplementation((sql: string) =>
+            sql.trim().startsWith('SELECT')
+                ? {
+                      rows: [
+                          {
+                              id: 1,
+                              version: '20260214120000',
+                              name: 'add_index',
+                              applied_at: new Date(),
+                              execution_time_ms: 5,
+                              checksum
+                          }
+                      ]
+                  }
+                : { rows: [] }
+        );
+
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const summary = await runner.rollback();
+
+        expect(summary.total_rolled_back).toBe(1);
+        const calls = clientQueries(mockClient);
+        expect(calls).not.toContain('BEGIN');
+        expect(calls.slice(0, 2)).toEqual([
+            'DROP INDEX CONCURRENTLY IF EXISTS idx_b',
+            'DROP INDEX CONCURRENTLY IF EXISTS idx_a'
+        ]);
+        expect(calls[2]).toMatch(/^DELETE FROM schema_migrations/);
+    });
+});
+
+// ─── Dirty State ─────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Dirty State', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let records: any[];
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-dirty-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_first.sql'),
+            '-- migrate:up\nCREATE TABLE IF NOT EXISTS first (id int);\n-- migrate:down\nDROP TABLE IF EXISTS first;'
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_add_index.sql'),
+            '-- migrate:no-transaction\n-- migrate:up\nCREATE INDEX CONCURRENTLY IF NOT EXISTS idx ON first (id);\n-- migrate:down\nDROP INDEX CONCURRENTLY IF EXISTS idx;'
+        );
+
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation((sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn(),
+            end: jest.fn()
+        };
+
+        const runner = new MigrationRunner(mockPool as any, tmpDir);
+        const [first, addIndex] = runner.readMigrationFiles();
+        records = [
+            {
+                id: 1,
+                version: first.version,
+                name: first.name,
+                applied_at: new Date().toISOString(),
+                execution_time_ms: 5,
+                checksum: first.checksum,
+                status: 'applied',
+                error: null
+            },
+            {
+                id: 2,
+                version: addIndex.version,
+                name: addIndex.name,
+                applied_at: new Date().toISOString(),
+                execution_time_ms: 7,
+                checksum: addIndex.checksum,
+                status: 'failed',
+                error: 'deadlock detected'
+            }
+        ];
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should add the status and error columns to existing tracking tables', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir }).ensureMigrationsTable();
+
+        const sql = mockPool.query.mock.calls[0][0];
+        expect(sql).toContain('ADD COLUMN IF NOT EXISTS status');
+        expect(sql).toContain('ADD COLUMN IF NOT EXISTS error');
+    });
+
+    it('should only run DDL when the catalog shows the table is missing or out of date', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir }).ensureMigrationsTable();
+
+        // Statements outside the guards would lock the table on every status read
+        const sql: string = mockPool.query.mock.calls[0][0];
+        expect(sql.startsWith('DO $$')).toBe(true);
+        expect(sql).toMatch(/IF to_regclass\('schema_migrations'\) IS NULL THEN\s+CREATE TABLE/);
+        expect(sql).toMatch(
+            /IF NOT EXISTS \(SELECT 1 FROM pg_attribute WHERE attrelid = 'schema_migrations'::regclass AND attname = 'status' AND NOT attisdropped\) THEN\s+ALTER TABLE/
+        );
+        expect(sql).toMatch(/attname = 'error' AND NOT attisdropped\) THEN\s+ALTER TABLE/);
+    });
+
+    it('should report failed migrations from getStatus()', async () => {
+        const status = await createTestRunner(mockPool, { migrationsDir: tmpDir }).getStatus();
+
+        expect(status.map((s) => s.status)).toEqual(['applied', 'failed']);
+        expect(status[1].error).toBe('deadlock detected');
+    });
+
+    it('should count failed migrations in getSummary()', async () => {
+        expect(await createTestRunner(mockPool, { migrationsDir: tmpDir }).getSummary()).toEqual({
+            applied: 1,
+            pending: 0,
+            failed: 1,
+            total: 2
+        });
+    });
+
+    it('should refuse to migrate while a migration is dirty', async () => {
+        const err = await createTestRunner(mockPool, { migrationsDir: tmpDir })
+            .migrate()
+            .catch((e) => e);
+
+        expect(err).toBeInstanceOf(MigrationDirtyError);
+        expect(err.migration).toBe('20260214120000');
+        expect(err.error).toBe('deadlock detected');
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to roll back while a migration is dirty', async () => {
+        await expect(
+            createTestRunner(mockPool, { migrationsDir: tmpDir }).rollback()
+        ).rejects.toThrow(MigrationDirtyError);
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a failed migration as applied', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir }).resolve('20260214120000', {
+            as: 'applied'
+        });
+
+        const update = mockPool.query.mock.calls.find((c: any[]) =>
+            c[0].trim().startsWith('UPDATE')
+        );
+        expect(update![0]).toContain("SET status = 'applied', error = NULL");
+        expect(update![1]).toEqual(['20260214120000']);
+    });
+
+    it('should resolve a failed migration as pending by deleting its record', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir }).resolve('20260214120000', {
+            as: 'pending'
+        });
+
+        const del = mockPool.query.mock.calls.find((c: any[]) => c[0].trim().startsWith('DELETE'));
+        expect(del![1]).toEqual(['20260214120000']);
+    });
+
+    it('should reject resolving a migration that is not failed', async () => {
+        await expect(
+            createTestRunner(mockPool, { migrationsDir: tmpDir }).resolve('20260214110000', {
+                as: 'pending'
+            })
+        ).rejects.toThrow('is not recorded as failed');
+        await expect(
+            createTestRunner(mockPool, { migrationsDir: tmpDir }).resolve('20990101000000', {
+                as: 'pending'
+            })
+        ).rejects.toThrow(MigrationError);
+    });
+});
+
+// ─── Wait Until Up To Date ───────────────────────────────────────────────────
+
+describe('MigrationRunner — waitUntilUpToDate', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let records: any[];
+
+    const recordFor = (runner: MigrationRunner, index: number, status = 'applied') => {
+        const file = runner.readMigrationFiles()[index];
+        return {
+            id: index + 1,
+            version: file.version,
+            name: file.name,
+            applied_at: new Date().toISOString(),
+            execution_time_ms: 5,
+            checksum: file.checksum,
+            status,
+            error: status === 'failed' ? 'deadlock detected' : null
+        };
+    };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-wait-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_first.sql'),
+            '-- migrate:up\nCREATE TABLE first (id int);\n-- migrate:down\nDROP TABLE first;'
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_second.sql'),
+            '-- migrate:up\nCREATE TABLE second (id int);\n-- migrate:down\nDROP TABLE second;'
+        );
+
+        records = [];
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn(),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should resolve at once when nothing is pending', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        records = [recordFor(runner, 0), recordFor(runner, 1)];
+
+        await expect(runner.waitUntilUpToDate({ pollMs: 10 })).resolves.toBeUndefined();
+        // Catalog check + SELECT — a single check
+        expect(mockPool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat a missing tracking table as everything pending without creating it', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        mockPool.query.mockImplementation(async (sql: string) =>
+            sql.includes('to_regclass') ? { rows: [{ missing: true }] } : { rows: [] }
+        );
+
+        const error = await runner.waitUntilUpToDate({ timeoutMs: 30, pollMs: 10 }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(MigrationWaitTimeoutError);
+        expect(error.pending).toEqual(['20260214110000', '20260214120000']);
+        const queries = mockPool.query.mock.calls.map((c: any[]) => c[0]);
+        expect(queries.every((sql: string) => sql.includes('to_regclass'))).toBe(true);
+    });
+
+    it('should keep polling until the pending migrations are applied', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        const applied = [recordFor(runner, 0), recordFor(runner, 1)];
+        let checks = 0;
+        mockPool.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('to_regclass')) return { rows: [{ missing: false }] };
+            checks++;
+            return { rows: applied.slice(0, Math.min(checks - 1, 2)) };
+        });
+
+        await runner.waitUntilUpToDate({ timeoutMs: 5000, pollMs: 5 });
+        expect(checks).toBe(3);
+    });
+
+    it('should throw MigrationWaitTimeoutError with the pending versions', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        records = [recordFor(runner, 0)];
+
+        const error = await runner.waitUntilUpToDate({ timeoutMs: 30, pollMs: 10 }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(MigrationWaitTimeoutError);
+        expect(error.pending).toEqual(['20260214120000']);
+        expect(error.timeoutMs).toBe(30);
+    });
+
+    it('should wait for the advisory lock to be released when locking is enabled', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        records = [recordFor(runner, 0), recordFor(runner, 1)];
+
+        const holderRow = {
+            pid: 4242,
+            usename: 'app',
+            application_name: 'deploy',
+            client_addr: null,
+            backend_start: new Date('2026-02-14T12:00:00Z'),
+            state: 'active',
+            query: 'COMMIT'
+        };
+        const client = {
+            query: jest
+                .fn()
+                .mockResolvedValueOnce({ rows: [holderRow] })
+                .mockResolvedValue({ rows: [] }),
+            release: jest.fn()
+        };
+        mockPool.connect.mockResolvedValue(client);
+
+        await runner.waitUntilUpToDate({ timeoutMs: 5000, pollMs: 5 });
+
+        expect(client.query).toHaveBeenCalledTimes(2);
+        expect(client.release).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw MigrationDirtyError instead of waiting on a failed migration', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        records = [recordFor(runner, 0), recordFor(runner, 1, 'failed')];
+
+        await expect(runner.waitUntilUpToDate({ timeoutMs: 5000 })).rejects.toThrow(
+            MigrationDirtyError
+        );
+    });
+});
+
+// ─── JS/TS Migration Modules ─────────────────────────────────────────────────
+
+describe('MigrationRunner — JS/TS Migrations', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let records: any[];
+
+    const backfill = `
+exports.up = async (client) => {
+    await client.query('UPDATE users SET slug = lower(name)');
+};
+exports.down = async (client) => {
+    await client.query('UPDATE users SET slug = NULL');
+};
+`;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-module-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_add_slug.sql'),
+            '-- migrate:up\nALTER TABLE users ADD COLUMN slug text;\n-- migrate:down\nALTER TABLE users DROP COLUMN slug;'
+        );
+        fs.writeFileSync(path.join(tmpDir, '20260214120000_backfill_slugs.js'), backfill);
+
+        records = [];
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read modules next to SQL files, checksumming the source', () => {
+        const [sql, mod] = createTestRunner(mockPool, {
+            migrationsDir: tmpDir
+        }).readMigrationFiles();
+
+        expect(sql.filename).toBe('20260214110000_add_slug.sql');
+        expect(mod).toEqual({
+            version: '20260214120000',
+            name: 'backfill_slugs',
+            filename: '20260214120000_backfill_slugs.js',
+            upSql: '',
+            downSql: '',
+            checksum: computeChecksum(backfill),
+            modulePath: path.join(tmpDir, '20260214120000_backfill_slugs.js')
+        });
+    });
+
+    it('should not load modules until they run', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214130000_broken.js'),
+            "throw new Error('loaded too early');"
+        );
+
+        expect(
+            createTestRunner(mockPool, { migrationsDir: tmpDir }).readMigrationFiles()
+        ).toHaveLength(3);
+    });
+
+    it('should run up(client) inside the migration transaction', async () => {
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).migrate();
+
+        expect(summary.total_applied).toBe(2);
+        expect(clientQueries(mockClient).slice(-4)).toEqual([
+            'BEGIN',
+            'UPDATE users SET slug = lower(name)',
+            expect.stringContaining('INSERT INTO schema_migrations'),
+            'COMMIT'
+        ]);
+    });
+
+    it('should support a TypeScript module with a default export', async () => {
+        fs.rmSync(path.join(tmpDir, '20260214120000_backfill_slugs.js'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_backfill_slugs.ts'),
+            `export default {
+    async up(client: { query(sql: string): Promise<unknown> }): Promise<void> {
+        await client.query('SELECT 42');
+    }
+};
+`
+        );
+
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).migrate();
+
+        expect(summary.failed).toBeNull();
+        expect(clientQueries(mockClient)).toContain('SELECT 42');
+    });
+
+    it('should report a module without up() as a failed migration', async () => {
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_backfill_slugs.js'),
+            'exports.down = () => {};'
+        );
+
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).migrate();
+
+        expect(summary.failed!.name).toBe('backfill_slugs');
+        expect(summary.failed!.error).toMatch(/does not export an up\(\) function/);
+        expect(clientQueries(mockClient)).toContain('ROLLBACK');
+    });
+
+    it('should roll back with down(client)', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        records = runner.readMigrationFiles().map((f, i) => ({
+            id: i + 1,
+            version: f.version,
+            name: f.name,
+            applied_at: new Date().toISOString(),
+            execution_time_ms: 1,
+            checksum: f.checksum
+        }));
+
+        const summary = await runner.rollback();
+
+        expect(summary.rolledBack[0].name).toBe('backfill_slugs');
+        expect(clientQueries(mockClient)).toEqual([
+            'BEGIN',
+            'UPDATE users SET slug = NULL',
+            expect.stringContaining('DELETE FROM schema_migrations'),
+            'COMMIT'
+        ]);
+    });
+
+    it('should refuse to roll back a module without down()', async () => {
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_backfill_slugs.js'),
+            'exports.up = () => {};'
+        );
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+        records = runner.readMigrationFiles().map((f, i) => ({
+            id: i + 1,
+            version: f.version,
+            name: f.name,
+            applied_at: new Date().toISOString(),
+            execution_time_ms: 1,
+            checksum: f.checksum
+        }));
+
+        await expect(runner.rollback(1, { toVersion: '20260214110000' })).rejects.toThrow(
+            /does not export a down\(\) function/
+        );
+    });
+});
+
+// ─── Migration Sources ───────────────────────────────────────────────────────
+
+describe('MigrationRunner — Migration Sources', () => {
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let records: any[];
+
+    beforeEach(() => {
+        records = [];
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    it('should read migrations from the configured source, sorted by version', () => {
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                { version: '20260102000000', name: 'second', up: 'SELECT 2' },
+                { version: '20260101000000', name: 'first', up: 'SELECT 1' }
+            ])
+        });
+
+        expect(runner.readMigrationFiles().map((m) => m.name)).toEqual(['first', 'second']);
+    });
+
+    it('should apply SQL and function migrations from memory', async () => {
+        const up = jest.fn(async (client: any) => {
+            await client.query('UPDATE users SET active = true');
+        });
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                { version: '20260101000000', name: 'create_users', up: 'CREATE TABLE users ()' },
+                { version: '20260102000000', name: 'activate_users', up }
+            ])
+        });
+
+        const summary = await runner.migrate();
+
+        expect(summary.total_applied).toBe(2);
+        expect(up).toHaveBeenCalledWith(mockClient);
+        expect(clientQueries(mockClient)).toEqual(
+            expect.arrayContaining(['CREATE TABLE users ()', 'UPDATE users SET active = true'])
+        );
+    });
+
+    it('should roll back a function migration with its down()', async () => {
+        const down = jest.fn();
+        const source = new MemoryMigrationSource([
+            { version: '20260101000000', name: 'activate_users', up: jest.fn(), down }
+        ]);
+        const runner = createTestRunner(mockPool, { source });
+        records = source.readMigrations().map((f) => ({
+            id: 1,
+            version: f.version,
+            name: f.name,
+            applied_at: new Date().toISOString(),
+            execution_time_ms: 1,
+            checksum: f.checksum
+        }));
+
+        await runner.rollback(1);
+
+        expect(down).toHaveBeenCalledWith(mockClient);
+    });
+
+    it('should name the source when a target version is unknown', async () => {
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                { version: '20260101000000', name: 'first', up: 'SELECT 1' }
+            ])
+        });
+
+        await expect(runner.migrate({ to: '20269999999999' })).rejects.toThrow(
+            /in-memory migrations/
+        );
+    });
+});
+
+// ─── Repeatable Migrations ───────────────────────────────────────────────────
+
+describe('MigrationRunner — Repeatable Migrations', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let records: any[];
+
+    const viewSql = 'CREATE OR REPLACE VIEW active_users AS SELECT * FROM users WHERE active;';
+    const usersChecksum = computeChecksum('CREATE TABLE users (id serial);');
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-repeatable-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_create_users.sql'),
+            '-- migrate:up\nCREATE TABLE users (id serial);\n-- migrate:down\nDROP TABLE users;'
+        );
+        fs.writeFileSync(path.join(tmpDir, 'R__active_users.sql'), `-- migrate:up\n${viewSql}`);
+
+        records = [];
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const record = (version: string, name: string, checksum: string) => ({
+        id: records.length + 1,
+        version,
+        name,
+        applied_at: new Date().toISOString(),
+        execution_time_ms: 1,
+        checksum,
+        status: 'applied'
+    });
+
+    it('should sort repeatable migrations after the versioned ones', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_add_email.sql'),
+            '-- migrate:up\nSELECT 1;'
+        );
+
+        expect(
+            createTestRunner(mockPool, { migrationsDir: tmpDir })
+                .readMigrationFiles()
+                .map((f) => f.version)
+        ).toEqual(['20260214110000', '20260214120000', 'R__active_users']);
+    });
+
+    it('should widen the version column of existing tracking tables', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir }).ensureMigrationsTable();
+
+        const sql = mockPool.query.mock.calls[0][0];
+        expect(sql).toContain('version VARCHAR(255) NOT NULL UNIQUE');
+        expect(sql).toContain('ALTER COLUMN version TYPE VARCHAR(255)');
+    });
+
+    it('should apply a new repeatable migration after the versioned ones, upserting its row', async () => {
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).migrate();
+
+        expect(summary.applied.map((r) => r.version)).toEqual([
+            '20260214110000',
+            'R__active_users'
+        ]);
+        expect(clientQueries(mockClient).slice(-4)).toEqual([
+            'BEGIN',
+            viewSql,
+            expect.stringContaining('ON CONFLICT (version) DO UPDATE'),
+            'COMMIT'
+        ]);
+        expect(mockClient.query.mock.calls[mockClient.query.mock.calls.length - 2][1]).toEqual([
+            'R__active_users',
+            'active_users',
+            expect.any(Number),
+            computeChecksum(viewSql)
+        ]);
+    });
+
+    it('should skip an unchanged repeatable migration and re-apply a changed one', async () => {
+        records = [
+            record('20260214110000', 'create_users', usersChecksum),
+            record('R__active_users', 'active_users', computeChecksum(viewSql))
+        ];
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+
+        expect((await runner.migrate()).total_pending).toBe(0);
+        expect(await runner.hasPendingMigrations()).toBe(false);
+
+        fs.writeFileSync(
+            path.join(tmpDir, 'R__active_users.sql'),
+            '-- migrate:up\nCREATE OR REPLACE VIEW active_users AS SELECT id FROM users;'
+        );
+
+        const summary = await runner.migrate();
+        expect(summary.applied.map((r) => r.version)).toEqual(['R__active_users']);
+    });
+
+    it('should report repeatable migrations with an outdated flag', async () => {
+        records = [record('R__active_users', 'active_users', 'stale')];
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir });
+
+        const status = await runner.getStatus();
+        expect(status[1]).toEqual(
+            expect.objectContaining({
+                version: 'R__active_users',
+                status: 'repeatable',
+                checksum: 'stale',
+                outdated: true
+            })
+        );
+        expect(await runner.getSummary()).toEqual({ applied: 0, pending: 2, failed: 0, total: 2 });
+
+        records = [record('R__active_users', 'active_users', computeChecksum(viewSql))];
+        expect((await runner.getStatus())[1].outdated).toBe(false);
+        expect(await runner.getSummary()).toEqual({ applied: 1, pending: 1, failed: 0, total: 2 });
+    });
+
+    it('should not treat a changed repeatable migration as a checksum mismatch', async () => {
+        records = [record('R__active_users', 'active_users', 'stale')];
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, strictChecksums: true });
+
+        expect(await runner.verifyChecksums()).toEqual([]);
+        await expect(runner.migrate()).resolves.toEqual(
+            expect.objectContaining({ failed: null, total_applied: 2 })
+        );
+    });
+
+    it('should leave repeatable migrations pending when migrating to a target', async () => {
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).migrate({
+            to: '20260214110000'
+        });
+
+        expect(summary.applied.map((r) => r.version)).toEqual(['20260214110000']);
+        expect(summary.skipped).toEqual([{ version: 'R__active_users', name: 'active_users' }]);
+    });
+
+    it('should never roll back a repeatable migration', async () => {
+        records = [
+            record('20260214110000', 'create_users', usersChecksum),
+            record('R__active_users', 'active_users', computeChecksum(viewSql))
+        ];
+
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir }).rollback(1);
+
+        expect(summary.rolledBack.map((r) => r.version)).toEqual(['20260214110000']);
+        expect(clientQueries(mockClient)).toContain('DROP TABLE users;');
+    });
+});
+
+// ─── Variables ───────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Variables', () => {
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let records: any[];
+
+    const upSql =
+        'CREATE TABLE events (id serial) TABLESPACE ${tablespace};\nALTER TABLE events OWNER TO ${owner};';
+    const source = new MemoryMigrationSource([
+        {
+            version: '20260101000000',
+            name: 'create_events',
+            up: upSql,
+            down: 'DROP TABLE ${schema}.events;'
+        }
+    ]);
+
+    beforeEach(() => {
+        records = [];
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [] }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    it('should run the UP section with its placeholders resolved', async () => {
+        const summary = await createTestRunner(mockPool, {
+            source,
+            variables: {
+                tablespace: 'fast_ssd',
+                owner: 'app_owner'
+            }
+        }).migrate();
+
+        expect(summary.total_applied).toBe(1);
+        expect(clientQueries(mockClient)).toContain(
+            'CREATE TABLE events (id serial) TABLESPACE fast_ssd;\nALTER TABLE events OWNER TO app_owner;'
+        );
+    });
+
+    it('should record the checksum of the unresolved text', async () => {
+        await createTestRunner(mockPool, {
+            source,
+            variables: { tablespace: 'fast_ssd', owner: 'app_owner' }
+        }).migrate();
+
+        const insert = mockClient.query.mock.calls.find((c: any[]) =>
+            c[0].startsWith('INSERT INTO schema_migrations')
+        );
+        expect(insert![1]).toContain(computeChecksum(upSql));
+    });
+
+    it('should throw MigrationParseError for an undefined variable before applying anything', async () => {
+        const runner = createTestRunner(mockPool, {
+            source,
+            variables: { tablespace: 'fast_ssd' }
+        });
+
+        await expect(runner.migrate()).rejects.toThrow(MigrationParseError);
+        await expect(runner.migrate({ dryRun: true })).rejects.toThrow(
+            "Failed to parse migration file '20260101000000_create_events': " +
+                'undefined variable ${owner} in the UP section'
+        );
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should resolve only the DOWN section on rollback', async () => {
+        records = [
+            {
+                version: '20260101000000',
+                name: 'create_events',
+                checksum: computeChecksum(upSql),
+                status: 'applied'
+            }
+        ];
+
+        await expect(createTestRunner(mockPool, { source }).rollback()).rejects.toThrow(
+            'undefined variable ${schema} in the DOWN section'
+        );
+
+        const summary = await createTestRunner(mockPool, {
+            source,
+            variables: { schema: 'tenant_a' }
+        }).rollback();
+        expect(summary.total_rolled_back).toBe(1);
+        expect(clientQueries(mockClient)).toContain('DROP TABLE tenant_a.events;');
+    });
+
+    it('should not require variables that only appear in comments', async () => {
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                {
+                    version: '20260101000000',
+                    name: 'create_events',
+                    up: '-- Run with --var owner=... to set ${owner}\nCREATE TABLE events (id serial);'
+                }
+            ])
+        });
+
+        const summary = await runner.migrate({ dryRun: true });
+        expect(summary.applied.map((m) => m.name)).toEqual(['create_events']);
+    });
+});
+
+// ─── SQL Script ──────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — SQL Script', () => {
+    let mockPool: MockPool;
+
+    const usersUp = 'CREATE TABLE users (id serial) TABLESPACE ${tablespace};';
+    const variables = { tablespace: 'fast_ssd' };
+    const definitions = [
+        { version: '20260101000000', name: 'create_users', up: usersUp, down: 'DROP TABLE users;' },
+        {
+            version: '20260102000000',
+            name: 'index_users',
+            up: 'CREATE INDEX CONCURRENTLY idx_users ON users (id) -- no semicolon',
+            noTransaction: true
+        }
+    ];
+
+    beforeEach(() => {
+        mockPool = {
+            query: jest.fn().mockResolvedValue({ rows: [] }),
+            connect: jest.fn(),
+            end: jest.fn()
+        };
+    });
+
+    it('should render a psql script with one transaction per migration, as a dry run', async () => {
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource(definitions),
+            variables
+        }).migrate({ printSql: true });
+
+        expect(summary.dryRun).toBe(true);
+        expect(summary.total_applied).toBe(2);
+        expect(mockPool.connect).not.toHaveBeenCalled();
+
+        const script = summary.sql!;
+        expect(script).toContain('\\set ON_ERROR_STOP on');
+        expect(script).toContain('CREATE TABLE IF NOT EXISTS schema_migrations (');
+        expect(script).toContain(
+            [
+                '-- 20260101000000_create_users',
+                'BEGIN;',
+                'CREATE TABLE users (id serial) TABLESPACE fast_ssd;',
+                'INSERT INTO schema_migrations (version, name, execution_time_ms, checksum) ' +
+                    `VALUES ('20260101000000', 'create_users', 0, '${computeChecksum(usersUp)}');`,
+                'COMMIT;'
+            ].join('\n')
+        );
+        expect(script).toContain(
+            [
+                '-- 20260102000000_index_users (-- migrate:no-transaction)',
+                'CREATE INDEX CONCURRENTLY idx_users ON users (id) -- no semicolon',
+                ';',
+                'INSERT INTO schema_migrations'
+            ].join('\n')
+        );
+    });
+
+    it('should wrap the whole script in one transaction with atomic: all', async () => {
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([definitions[0]]),
+            variables
+        });
+        const script = (await runner.migrate({ printSql: true, atomic: 'all' })).sql!;
+
+        expect(script.match(/^BEGIN;$/gm)).toHaveLength(1);
+        expect(script.indexOf('BEGIN;')).toBeLessThan(script.indexOf('CREATE TABLE users'));
+        expect(script.trimEnd().endsWith('COMMIT;')).toBe(true);
+    });
+
+    it('should upsert repeatable migrations and quote values', async () => {
+        const source: MigrationSource = {
+            description: 'test',
+            readMigrations: () => [
+                {
+                    version: 'R__o_reilly_view',
+                    name: "o'reilly_view",
+                    filename: 'R__o_reilly_view.sql',
+                    upSql: 'CREATE OR REPLACE VIEW v AS SELECT 1;',
+                    downSql: '',
+                    checksum: 'abc',
+                    repeatable: true
+                }
+            ]
+        };
+
+        const script = (
+            await createTestRunner(mockPool, { source, variables }).migrate({ printSql: true })
+        ).sql!;
+
+        expect(script).toContain(
+            "VALUES ('R__o_reilly_view', 'o''reilly_view', 0, 'abc')\n    ON CONFLICT (version) DO UPDATE"
+        );
+    });
+
+    it('should refuse to render a JS/TS migration', async () => {
+        const runner = createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                { version: '20260101000000', name: 'backfill', up: async () => {} }
+            ]),
+            variables
+        });
+
+        await expect(runner.migrate({ printSql: true })).rejects.toThrow(
+            /Cannot print SQL for 20260101000000_backfill/
+        );
+    });
+});
+
+// ─── Execute Dry Run ─────────────────────────────────────────────────────────
+
+describe("MigrationRunner — dryRun: 'execute'", () => {
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let records: any[];
+
+    const definitions = [
+        {
+            version: '20260101000000',
+            name: 'backfill_status',
+            up: "UPDATE users SET status = 'active';",
+            down: 'UPDATE users SET status = NULL;'
+        },
+        {
+            version: '20260102000000',
+            name: 'unique_email',
+            up: 'CREATE UNIQUE INDEX users_email ON users (email);',
+            down: 'DROP INDEX users_email;'
+        },
+        {
+            version: '20260103000000',
+            name: 'archive',
+            up: 'INSERT INTO archive SELECT 1; INSERT INTO archive SELECT 2;'
+        }
+    ];
+
+    beforeEach(() => {
+        records = [];
+        mockClient = {
+            query: jest.fn().mockImplementation(async (sql: string) => {
+                if (sql.startsWith('UPDATE')) return { rows: [], rowCount: 3 };
+                if (sql.startsWith('INSERT INTO archive')) {
+                    return [
+                        { rows: [], rowCount: 1 },
+                        { rows: [], rowCount: 1 }
+                    ];
+                }
+                return { rows: [], rowCount: null };
+            }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    it('should run every migration in one transaction and always roll it back', async () => {
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource(definitions)
+        }).migrate({ dryRun: 'execute' });
+
+        expect(summary.dryRun).toBe('execute');
+        expect(summary.failed).toBeNull();
+        expect(summary.applied.map((r) => [r.version, r.rowCount])).toEqual([
+            ['20260101000000', 3],
+            ['20260102000000', 0],
+            ['20260103000000', 2]
+        ]);
+
+        const calls = clientQueries(mockClient);
+        expect(calls[0]).toBe('BEGIN');
+        expect(calls[calls.length - 1]).toBe('ROLLBACK');
+        expect(calls).not.toContain('COMMIT');
+        expect(calls.filter((c) => c.startsWith('INSERT INTO schema_migrations'))).toHaveLength(3);
+        expect(mockPool.connect).toHaveBeenCalledTimes(1);
+        expect(mockClient.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop at the first failure and report it', async () => {
+        mockClient.query.mockImplementation(async (sql: string) => {
+            if (sql.startsWith('CREATE UNIQUE INDEX')) {
+                throw new Error('could not create unique index "users_email"');
+            }
+            return { rows: [], rowCount: 0 };
+        });
+
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource(definitions)
+        }).migrate({ dryRun: 'execute' });
+
+        expect(summary.applied.map((r) => r.version)).toEqual(['20260101000000']);
+        expect(summary.failed).toMatchObject({
+            success: false,
+            version: '20260102000000',
+            error: 'could not create unique index "users_email"'
+        });
+        expect(clientQueries(mockClient)).not.toContain(definitions[2].up);
+        expect(clientQueries(mockClient)[clientQueries(mockClient).length - 1]).toBe('ROLLBACK');
+    });
+
+    it('should list non-transactional migrations without running them', async () => {
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource([
+                {
+                    version: '20260101000000',
+                    name: 'concurrent_index',
+                    up: 'CREATE INDEX CONCURRENTLY idx ON users (email);',
+                    noTransaction: true
+                }
+            ])
+        }).migrate({ dryRun: 'execute' });
+
+        expect(summary.applied).toEqual([
+            {
+                success: true,
+                version: '20260101000000',
+                name: 'concurrent_index',
+                execution_time_ms: 0,
+                executed: false
+            }
+        ]);
+        expect(clientQueries(mockClient)).toEqual(['BEGIN', 'ROLLBACK']);
+    });
+
+    it('should roll back in a transaction that is itself rolled back', async () => {
+        records = definitions.slice(0, 2).map((d) => ({
+            version: d.version,
+            name: d.name,
+            checksum: computeChecksum(d.up),
+            status: 'applied'
+        }));
+
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource(definitions)
+        }).rollback(2, { dryRun: 'execute' });
+
+        expect(summary.dryRun).toBe('execute');
+        expect(summary.rolledBack.map((r) => [r.version, r.rowCount])).toEqual([
+            ['20260102000000', 0],
+            ['20260101000000', 3]
+        ]);
+        expect(clientQueries(mockClient)).toEqual([
+            'BEGIN',
+            'DROP INDEX users_email;',
+            'DELETE FROM schema_migrations WHERE version = $1',
+            'UPDATE users SET status = NULL;',
+            'DELETE FROM schema_migrations WHERE version = $1',
+            'ROLLBACK'
+        ]);
+    });
+
+    it('should report a migration whose file is missing as failed', async () => {
+        records = [{ version: '20250101000000', name: 'gone', checksum: 'abc', status: 'applied' }];
+
+        const summary = await createTestRunner(mockPool, {
+            source: new MemoryMigrationSource(definitions)
+        }).rollback(1, { dryRun: 'execute' });
+
+        expect(summary.failed).toMatchObject({ version: '20250101000000', success: false });
+        expect(clientQueries(mockClient)).toEqual(['BEGIN', 'ROLLBACK']);
+    });
+});
+
+// ─── Seeds ───────────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Seeds', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let seedsDir: string[];
+    let seedRecords: { name: string; checksum: string }[];
+
+    const lookupSql = "INSERT INTO countries (code) VALUES ('NL') ON CONFLICT DO NOTHING;";
+    const refreshSql = '-- seed:always\nREFRESH MATERIALIZED VIEW country_stats;';
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-seed-test-'));
+        seedsDir = [path.join(tmpDir, 'common'), path.join(tmpDir, 'dev')];
+        seedsDir.forEach((dir) => fs.mkdirSync(dir));
+        fs.writeFileSync(path.join(tmpDir, 'common', '01_countries.sql'), lookupSql);
+        fs.writeFileSync(path.join(tmpDir, 'common', '02_refresh_stats.sql'), refreshSql);
+        fs.writeFileSync(path.join(tmpDir, 'common', 'README.md'), '# seeds');
+        fs.writeFileSync(
+            path.join(tmpDir, 'dev', '01_demo_tenant.sql'),
+            "INSERT INTO tenants (name) VALUES ('demo');"
+        );
+
+        seedRecords = [];
+        mockClient = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.includes('pg_try_advisory_lock')
+                        ? { rows: [{ acquired: true }] }
+                        : { rows: [], rowCount: 0 }
+                ),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest
+                .fn()
+                .mockImplementation(async (sql: string) =>
+                    sql.trim().startsWith('SELECT') ? { rows: seedRecords } : { rows: [] }
+                ),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read .sql seeds directory by directory, in filename order', () => {
+        const seeds = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir
+        }).readSeedFiles();
+
+        expect(seeds.map((s) => [s.name, s.always])).toEqual([
+            ['01_countries.sql', false],
+            ['02_refresh_stats.sql', true],
+            ['01_demo_tenant.sql', false]
+        ]);
+        expect(seeds[0]).toEqual({
+            name: '01_countries.sql',
+            filePath: path.join(tmpDir, 'common', '01_countries.sql'),
+            sql: lookupSql,
+            checksum: computeChecksum(lookupSql),
+            always: false
+        });
+    });
+
+    it('should reject the same seed filename in two directories', () => {
+        fs.writeFileSync(path.join(tmpDir, 'dev', '01_countries.sql'), 'SELECT 1;');
+
+        expect(() =>
+            createTestRunner(mockPool, { migrationsDir: tmpDir, seedsDir }).readSeedFiles()
+        ).toThrow(/Duplicate seed 01_countries\.sql: .*common.* and .*dev/);
+    });
+
+    it('should run each new seed in its own transaction and record it in the seeds table', async () => {
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir
+        }).seed();
+
+        expect(summary.applied.map((r) => r.name)).toEqual([
+            '01_countries.sql',
+            '02_refresh_stats.sql',
+            '01_demo_tenant.sql'
+        ]);
+        expect(summary.total_applied).toBe(3);
+        expect(mockPool.query.mock.calls[0][0]).toContain(
+            'CREATE TABLE IF NOT EXISTS schema_migrations_seeds'
+        );
+        expect(clientQueries(mockClient).slice(0, 4)).toEqual([
+            'BEGIN',
+            lookupSql,
+            expect.stringContaining('INSERT INTO schema_migrations_seeds'),
+            'COMMIT'
+        ]);
+        expect(mockClient.query.mock.calls[2][1]).toEqual([
+            '01_countries.sql',
+            expect.any(Number),
+            computeChecksum(lookupSql)
+        ]);
+    });
+
+    it('should skip run-once seeds that already ran but rerun seed:always ones', async () => {
+        seedRecords = [
+            { name: '01_countries.sql', checksum: computeChecksum(lookupSql) },
+            { name: '02_refresh_stats.sql', checksum: computeChecksum(refreshSql) }
+        ];
+
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir
+        }).seed();
+
+        expect(summary.applied.map((r) => r.name)).toEqual([
+            '02_refresh_stats.sql',
+            '01_demo_tenant.sql'
+        ]);
+        expect(summary.skipped).toEqual(['01_countries.sql']);
+    });
+
+    it('should warn about, but not rerun, a run-once seed that changed', async () => {
+        seedRecords = [
+            { name: '01_countries.sql', checksum: 'stale' },
+            { name: '02_refresh_stats.sql', checksum: 'stale' },
+            { name: '01_demo_tenant.sql', checksum: 'stale' }
+        ];
+        const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir,
+            logger
+        }).seed();
+
+        expect(summary.applied.map((r) => r.name)).toEqual(['02_refresh_stats.sql']);
+        expect(logger.warn).toHaveBeenCalledWith(
+            expect.stringContaining('Seed 01_countries.sql changed since it ran')
+        );
+    });
+
+    it('should roll back a failing seed and stop', async () => {
+        mockClient.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('REFRESH MATERIALIZED VIEW')) {
+                throw new Error('relation "country_stats" does not exist');
+            }
+            return { rows: [], rowCount: 0 };
+        });
+
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir
+        }).seed();
+
+        expect(summary.applied.map((r) => r.name)).toEqual(['01_countries.sql']);
+        expect(summary.failed).toEqual(
+            expect.objectContaining({
+                success: false,
+                name: '02_refresh_stats.sql',
+                error: 'relation "country_stats" does not exist'
+            })
+        );
+        expect(clientQueries(mockClient)).toContain('ROLLBACK');
+        expect(clientQueries(mockClient)).not.toContain(
+            "INSERT INTO tenants (name) VALUES ('demo');"
+        );
+    });
+
+    it('should only report what would run in dry-run mode', async () => {
+        const summary = await createTestRunner(mockPool, { migrationsDir: tmpDir, seedsDir }).seed({
+            dryRun: true
+        });
+
+        expect(summary.dryRun).toBe(true);
+        expect(summary.total_applied).toBe(3);
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should hold the advisory lock while seeding', async () => {
+        await createTestRunner(mockPool, { migrationsDir: tmpDir, seedsDir, useLock: true }).seed();
+
+        expect(clientQueries(mockClient)[0]).toBe('SELECT pg_try_advisory_lock($1) AS acquired');
+        expect(clientQueries(mockClient)).toContain('SELECT pg_advisory_unlock($1)');
+    });
+
+    it('should not rerun run-once seeds that another instance ran while it waited for the lock', async () => {
+        let lockAttempts = 0;
+        mockClient.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('pg_try_advisory_lock')) {
+                const acquired = lockAttempts++ >= 1;
+                if (acquired && seedRecords.length === 0) {
+                    seedRecords.push(
+                        { name: '01_countries.sql', checksum: computeChecksum(lookupSql) },
+                        {
+                            name: '01_demo_tenant.sql',
+                            checksum: computeChecksum("INSERT INTO tenants (name) VALUES ('demo');")
+                        }
+                    );
+                }
+                return { rows: [{ acquired }] };
+            }
+            return { rows: [], rowCount: 0 };
+        });
+
+        const summary = await createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            seedsDir,
+            useLock: true,
+            lockStrategy: 'wait',
+            lockPollIntervalMs: 1
+        }).seed();
+
+        expect(summary.applied.map((r) => r.name)).toEqual(['02_refresh_stats.sql']);
+        expect(summary.skipped).toEqual(['01_countries.sql', '01_demo_tenant.sql']);
+        expect(clientQueries(mockClient)).not.toContain(lookupSql);
+    });
+
+    it('should not connect when there is nothing to seed', async () => {
+        const summary = await new MigrationRunner({
+            pool: mockPool as any,
+            seedsDir: path.join(tmpDir, 'missing'),
+            logger: false
+        }).seed();
+
+        expect(summary).toEqual({
+            applied: [],
+            failed: null,
+            skipped: [],
+            total_applied: 0,
+            dryRun: false
+        });
+        expect(mockPool.connect).not.toHaveBeenCalled();
+    });
+});
+
+// ─── Lifecycle Hooks ─────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Hooks', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+    let calls: string[];
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-hooks-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_first.sql'),
+            '-- migrate:up\nCREATE TABLE first (id int);\n-- migrate:down\nDROP TABLE first;'
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_second.sql'),
+            '-- migrate:up\nCREATE TABLE second (id int);\n-- migrate:down\nDROP TABLE second;'
+        );
+
+        calls = [];
+        mockClient = {
+            query: jest.fn().mockImplementation(async (sql: string) => {
+                calls.push(sql.trim().split(/\s+/).slice(0, 3).join(' '));
+                return { rows: [], rowCount: 0 };
+            }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should call every hook in order, passing the transaction client', async () => {
+        const runner = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            hooks: {
+                beforeAll: async (pending) => {
+                    calls.push(`beforeAll ${pending.length}`);
+                },
+                beforeEach: async (migration, client) => {
+                    expect(client).toBe(mockClient);
+                    calls.push(`beforeEach ${migration.name}`);
+                },
+                afterEach: async (result, client) => {
+                    await client.query(`REFRESH MATERIALIZED VIEW ${result.name}_view`);
+                },
+                afterAll: async (summary) => {
+                    calls.push(`afterAll ${summary.total_applied}`);
+                }
+            }
+        });
+
+        await runner.migrate();
+
+        expect(calls).toEqual([
+            'beforeAll 2',
+            'BEGIN',
+            'beforeEach first',
+            'CREATE TABLE first',
+            'INSERT INTO schema_migrations',
+            'REFRESH MATERIALIZED VIEW',
+            'COMMIT',
+            'BEGIN',
+            'beforeEach second',
+            'CREATE TABLE second',
+            'INSERT INTO schema_migrations',
+            'REFRESH MATERIALIZED VIEW',
+            'COMMIT',
+            'afterAll 2'
+        ]);
+    });
+
+    it('should roll back the migration and report a failing afterEach hook', async () => {
+        const onError = jest.fn();
+        const afterAll = jest.fn();
+        const runner = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            hooks: {
+                afterEach: (result) => {
+                    if (result.name === 'second') throw new Error('snapshot failed');
+                },
+                afterAll,
+                onError
+            }
+        });
+
+        const summary = await runner.migrate();
+
+        expect(summary.total_applied).toBe(1);
+        expect(summary.failed!.name).toBe('second');
+        expect(summary.failed!.error).toBe('afterEach hook failed: snapshot failed');
+        expect(calls.slice(-2)).toEqual(['INSERT INTO schema_migrations', 'ROLLBACK']);
+
+        const [error, migration] = onError.mock.calls[0];
+        expect(error).toBeInstanceOf(MigrationHookError);
+        expect(error.hook).toBe('afterEach');
+        expect(migration.name).toBe('second');
+        expect(afterAll).toHaveBeenCalledWith(summary);
+    });
+
+    it('should throw MigrationHookError when beforeAll fails, before applying anything', async () => {
+        const onError = jest.fn();
+        const runner = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            hooks: {
+                beforeAll: () => {
+                    throw new Error('snapshot unavailable');
+                },
+                onError
+            }
+        });
+
+        await expect(runner.migrate()).rejects.toThrow(
+            'beforeAll hook failed: snapshot unavailable'
+        );
+        expect(mockPool.connect).not.toHaveBeenCalled();
+        expect(onError).toHaveBeenCalledWith(expect.any(MigrationHookError), null);
+    });
+
+    it('should roll back the whole batch when a hook fails with atomic: all', async () => {
+        const runner = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            hooks: {
+                beforeEach: (migration) => {
+                    if (migration.name === 'second') throw new Error('not allowed');
+                }
+            }
+        });
+
+        const summary = await runner.migrate({ atomic: 'all' });
+
+        expect(summary.applied).toEqual([]);
+        expect(summary.failed!.error).toBe('beforeEach hook failed: not allowed');
+        expect(calls).toContain('ROLLBACK');
+        expect(calls).not.toContain('COMMIT');
+    });
+
+    it('should not call hooks in dry-run mode or when nothing is pending', async () => {
+        const hooks = { beforeAll: jest.fn(), beforeEach: jest.fn(), afterAll: jest.fn() };
+
+        await createTestRunner(mockPool, { migrationsDir: tmpDir, hooks: hooks }).migrate({
+            dryRun: true
+        });
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        fs.mkdirSync(tmpDir);
+        await createTestRunner(mockPool, { migrationsDir: tmpDir, hooks: hooks }).migrate();
+
+        expect(hooks.beforeAll).not.toHaveBeenCalled();
+        expect(hooks.beforeEach).not.toHaveBeenCalled();
+        expect(hooks.afterAll).not.toHaveBeenCalled();
+    });
+
+    it('should ignore errors thrown by onError', async () => {
+        const runner = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            hooks: {
+                beforeEach: () => {
+                    throw new Error('boom');
+                },
+                onError: () => {
+                    throw new Error('slack is down');
+                }
+            }
+        });
+
+        const summary = await runner.migrate();
+        expect(summary.failed!.error).toBe('beforeEach hook failed: boom');
+    });
+});
+
+// ─── Events ──────────────────────────────────────────────────────────────────
+
+describe('MigrationRunner — Events', () => {
+    let tmpDir: string;
+    let mockPool: MockPool;
+    let mockClient: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-events-test-'));
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214110000_first.sql'),
+            '-- migrate:up\nCREATE TABLE first (id int);\n-- migrate:down\nDROP TABLE first;'
+        );
+        fs.writeFileSync(
+            path.join(tmpDir, '20260214120000_second.sql'),
+            '-- migrate:up\nCREATE TABLE second (id int);\n-- migrate:down\nDROP TABLE second;'
+        );
+
+        mockClient = {
+            query: jest.fn().mockResolvedValue({ rows: [{ acquired: true }], rowCount: 0 }),
+            release: jest.fn()
+        };
+        mockPool = {
+            query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+            connect: jest.fn().mockResolvedValue(mockClient),
+            end: jest.fn()
+        };
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    const recordEvents = (runner: MigrationRunner) => {
+        const events: string[] = [];
+        const names = [
+            'lock:acquired',
+            'lock:released',
+            'migration:start',
+            'migration:success',
+            'migration:failure',
+            'rollback:start',
+            'run:complete'
+        ] as const;
+        for (const name of names) {
+            runner.on(name, (payload: any) =>
+                events.push(payload.version ? `${name} ${payload.version}` : name)
+            );
+        }
+        return events;
+    };
+
+    it('should emit lock, migration and run events during migrate()', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        const events = recordEvents(runner);
+
+        await runner.migrate();
+
+        expect(events).toEqual([
+            'lock:acquired',
+            'migration:start 20260214110000',
+            'migration:success',
+            'migration:start 20260214120000',
+            'migration:success',
+            'lock:released',
+            'run:complete'
+        ]);
+    });
+
+    it('should pass the file, result and timings', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        const start = jest.fn();
+        const success = jest.fn();
+        const complete = jest.fn();
+        runner.on('migration:start', start).on('migration:success', success);
+        runner.once('run:complete', complete);
+
+        const summary = await runner.migrate({ to: '20260214110000' });
+
+        expect(start.mock.calls[0][0]).toMatchObject({
+            direction: 'up',
+            version: '20260214110000',
+            name: 'first',
+            dryRun: false
+        });
+        expect(start.mock.calls[0][0].file.upSql).toBe('CREATE TABLE first (id int);');
+        expect(success.mock.calls[0][0].result).toBe(summary.applied[0]);
+        expect(complete).toHaveBeenCalledWith({
+            command: 'migrate',
+            summary,
+            durationMs: expect.any(Number)
+        });
+    });
+
+    it('should emit migration:failure with the error', async () => {
+        mockClient.query.mockImplementation(async (sql: string) => {
+            if (sql.includes('second')) throw new Error('relation already exists');
+            return { rows: [{ acquired: true }], rowCount: 0 };
+        });
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        const failure = jest.fn();
+        runner.on('migration:failure', failure);
+
+        const summary = await runner.migrate();
+
+        const event = failure.mock.calls[0][0];
+        expect(event.result).toBe(summary.failed);
+        expect(event.file.name).toBe('second');
+        expect(event.error.message).toBe('relation already exists');
+    });
+
+    it('should emit rollback:start and down migration events during rollback()', async () => {
+        const files = createTestRunner(mockPool, {
+            migrationsDir: tmpDir,
+            useLock: true
+        }).readMigrationFiles();
+        mockPool.query.mockImplementation(async (sql: string) =>
+            sql.trim().startsWith('SELECT')
+                ? {
+                      rows: files.map((f, i) => ({
+                          id: i + 1,
+                          version: f.version,
+                          name: f.name,
+                          applied_at: new Date().toISOString(),
+                          execution_time_ms: 1,
+                          checksum: f.checksum
+                      }))
+                  }
+                : { rows: [] }
+        );
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        const events = recordEvents(runner);
+        const start = jest.fn();
+        runner.on('migration:start', start);
+
+        await runner.rollback(1, { dryRun: true });
+
+        expect(events).toEqual([
+            'lock:acquired',
+            'rollback:start',
+            'migration:start 20260214120000',
+            'migration:success',
+            'lock:released',
+            'run:complete'
+        ]);
+        expect(start.mock.calls[0][0]).toMatchObject({ direction: 'down', dryRun: true });
+    });
+
+    it('should keep running when a listener throws', async () => {
+        const runner = createTestRunner(mockPool, { migrationsDir: tmpDir, useLock: true });
+        runner.on('migration:start', () => {
+            throw new Error('progress bar crashed');
+        });
+
+        const summary = await runner.migrate();
+        expect(summary.total_applied).toBe(2);
+    });
+});
+
+// ─── Advisory Locking in Runner Tests ────────────────────────────────────────
+
+describe('MigrationRunner — Advisory Locking', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-lock-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    describe('migrate() with locking', () => {
+        it('should acquire and release lock when useLock is true', async () => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_test.sql'),
+                '-- migrate:up\nCREATE TABLE test (id int);\n-- migrate:down\nDROP TABLE IF EXISTS test;'
+            );
+
+            const lockClient = {
+                query: jest
+                    .fn()
+                    .mockResolvedValueOnce({ rows: [{ acquired: true }] })
+                    .mockResolvedValueOnce({ rows: [] }),
+                release: jest.fn()
+            };
+
+            const migrationClient = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                release: jest.fn()
+            };
+
+            let connectCallCount = 0;
+            const mockPool = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                connect: jest.fn().mockImplementation(() => {
+                    connectCallCount++;
+                    return connectCallCount === 1 ? lockClient : migrationClient;
+                }),
+                end: jest.fn()
+            };
+
+            const runner = new MigrationRunner({
+                pool: mockPool as any,
+                migrationsDir: tmpDir,
+                useLock: true
+            });
+
+            await runner.migrate();
+
+            expect(lockClient.query).toHaveBeenCalledWith(
+                'SELECT pg_try_advisory_lock($1) AS acquired',
+                expect.any(Array)
+            );
+
+            expect(lockClient.query).toHaveBeenCalledWith(
+                'SELECT pg_advisory_unlock($1)',
+                expect.any(Array)
+            );
+
+            expect(lockClient.release).toHaveBeenCalled();
+        });
+
+        it('should NOT acquire lock when useLock is false', async () => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_test.sql'),
+                '-- migrate:up\nCREATE TABLE test (id int);\n-- migrate:down\nDROP TABLE IF EXISTS test;'
+            );
 
             const migrationClient = {
                 query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
@@ -1061,6 +3575,177 @@ describe('MigrationRunner — Advisory Locking', () => {
             await expect(runner.migrate()).rejects.toThrow(MigrationLockError);
         });
 
+        it('should not need the lock when nothing is pending or only listing', async () => {
+            const upSql = 'CREATE TABLE test (id int);';
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_test.sql'),
+                `-- migrate:up\n${upSql}\n-- migrate:down\nDROP TABLE IF EXISTS test;`
+            );
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214130000_next.sql'),
+                '-- migrate:up\nSELECT 1;\n-- migrate:down\nSELECT 1;'
+            );
+
+            // Another instance holds the lock the whole time
+            const records: any[] = [
+                {
+                    version: '20260214120000',
+                    name: 'test',
+                    checksum: computeChecksum(upSql),
+                    status: 'applied'
+                },
+                {
+                    version: '20260214130000',
+                    name: 'next',
+                    checksum: computeChecksum('SELECT 1;'),
+                    status: 'applied'
+                }
+            ];
+            const lockClient = {
+                query: jest.fn().mockResolvedValue({ rows: [{ acquired: false }] }),
+                release: jest.fn()
+            };
+            const mockPool = {
+                query: jest
+                    .fn()
+                    .mockImplementation(async (sql: string) =>
+                        sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                    ),
+                connect: jest.fn().mockResolvedValue(lockClient),
+                end: jest.fn()
+            };
+
+            const runner = new MigrationRunner({
+                pool: mockPool as any,
+                migrationsDir: tmpDir,
+                logger: false
+            });
+
+            expect((await runner.migrate()).total_pending).toBe(0);
+            expect((await runner.migrate({ dryRun: true })).total_pending).toBe(0);
+
+            records.pop();
+            expect((await runner.migrate({ dryRun: true })).total_applied).toBe(1);
+            expect((await runner.migrate({ printSql: true })).sql).toContain('SELECT 1;');
+            expect(mockPool.connect).not.toHaveBeenCalled();
+
+            await expect(runner.migrate()).rejects.toThrow(MigrationLockError);
+        });
+
+        it("should wait for the lock with lockStrategy: 'wait'", async () => {
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_test.sql'),
+                '-- migrate:up\nSELECT 1;\n-- migrate:down\nSELECT 1;'
+            );
+
+            let lockAttempts = 0;
+            const client = {
+                query: jest.fn().mockImplementation((sql: string) => {
+                    if (sql.includes('pg_try_advisory_lock')) {
+                        return { rows: [{ acquired: lockAttempts++ >= 2 }] };
+                    }
+                    return { rows: [], rowCount: 0 };
+                }),
+                release: jest.fn()
+            };
+
+            const mockPool = {
+                query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+                connect: jest.fn().mockResolvedValue(client),
+                end: jest.fn()
+            };
+
+            const runner = new MigrationRunner({
+                pool: mockPool as any,
+                migrationsDir: tmpDir,
+                lockStrategy: 'wait',
+                lockTimeoutMs: 1000,
+                lockPollIntervalMs: 1,
+                logger: false
+            });
+
+            const summary = await runner.migrate();
+            expect(summary.total_applied).toBe(1);
+            expect(lockAttempts).toBe(3);
+        });
+
+        it('should not re-apply what the previous lock holder applied while it waited', async () => {
+            const upSql = 'CREATE TABLE test (id int);';
+            fs.writeFileSync(
+                path.join(tmpDir, '20260214120000_test.sql'),
+                `-- migrate:up\n${upSql}\n-- migrate:down\nDROP TABLE test;`
+            );
+
+            // Another instance holds the lock, and records the migration before releasing it
+            const records: any[] = [];
+            let lockAttempts = 0;
+            const client = {
+                query: jest.fn().mockImplementation((sql: string) => {
+                    if (sql.includes('pg_try_advisory_lock')) {
+                        const acquired = lockAttempts++ >= 2;
+                        if (acquired && records.length === 0) {
+                            records.push({
+                                version: '20260214120000',
+                                name: 'test',
+                                checksum: computeChecksum(upSql),
+                                status: 'applied'
+                            });
+                        }
+                        return { rows: [{ acquired }] };
+                    }
+                    return { rows: [], rowCount: 0 };
+                }),
+                release: jest.fn()
+            };
+
+            const mockPool = {
+                query: jest
+                    .fn()
+                    .mockImplementation(async (sql: string) =>
+                        sql.trim().startsWith('SELECT') ? { rows: records } : { rows: [] }
+                    ),
+                connect: jest.fn().mockResolvedValue(client),
+                end: jest.fn()
+            };
+
+            const runner = createTestRunner(mockPool, {
+                migrationsDir: tmpDir,
+                useLock: true,
+                lockStrategy: 'wait',
+                lockTimeoutMs: 1000,
+                lockPollIntervalMs: 1
+            });
+
+            const summary = await runner.migrate();
+
+            expect(summary.total_pending).toBe(0);
+            expect(summary.total_applied).toBe(0);
+            expect(client.query).not.toHaveBeenCalledWith(upSql);
+
+            // Likewise, a rollback that waited finds the record already gone
+            records.length = 0;
+            lockAttempts = 0;
+            records.push({
+                version: '20260214120000',
+                name: 'test',
+                checksum: computeChecksum(upSql),
+                status: 'applied'
+            });
+            client.query.mockImplementation((sql: string) => {
+                if (sql.includes('pg_try_advisory_lock')) {
+                    const acquired = lockAttempts++ >= 2;
+                    if (acquired) records.length = 0;
+                    return { rows: [{ acquired }] };
+                }
+                return { rows: [], rowCount: 0 };
+            });
+
+            const rollback = await runner.rollback(1);
+
+            expect(rollback.total_rolled_back).toBe(0);
+            expect(client.query).not.toHaveBeenCalledWith('DROP TABLE test;');
+        });
+
         it('should release lock even when migration fails', async () => {
             fs.writeFileSync(
                 path.join(tmpDir, '20260214120000_fail.sql'),
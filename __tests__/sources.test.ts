@@ -0,0 +1,275 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+    FilesystemMigrationSource,
+    GlobMigrationSource,
+    MemoryMigrationSource
+} from '../src/sources';
+import { computeChecksum } from '../src/helpers';
+import { MigrationDuplicateVersionError, MigrationParseError } from '../src/errors';
+
+const sql = (table: string) =>
+    `-- migrate:up\nCREATE TABLE ${table} (id serial);\n-- migrate:down\nDROP TABLE ${table};`;
+
+const filenames = (source: { readMigrations(): { filename: string }[] }) =>
+    source
+        .readMigrations()
+        .map((m) => m.filename)
+        .sort();
+
+// ─── FilesystemMigrationSource ───────────────────────────────────────────────
+
+describe('FilesystemMigrationSource', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-source-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read SQL files and modules from the directory', () => {
+        fs.writeFileSync(path.join(tmpDir, '20260101000000_users.sql'), sql('users'));
+        fs.writeFileSync(path.join(tmpDir, '20260102000000_backfill.js'), 'exports.up = () => {};');
+        fs.writeFileSync(path.join(tmpDir, 'README.md'), '# notes');
+
+        const source = new FilesystemMigrationSource(tmpDir);
+
+        expect(source.description).toBe(tmpDir);
+        expect(filenames(source)).toEqual([
+            '20260101000000_users.sql',
+            '20260102000000_backfill.js'
+        ]);
+    });
+
+    it('should read repeatable migrations', () => {
+        fs.writeFileSync(
+            path.join(tmpDir, 'R__active_users.sql'),
+            '-- migrate:up\nCREATE OR REPLACE VIEW active_users AS SELECT 1;'
+        );
+
+        expect(new FilesystemMigrationSource(tmpDir).readMigrations()).toEqual([
+            {
+                version: 'R__active_users',
+                name: 'active_users',
+                filename: 'R__active_users.sql',
+                upSql: 'CREATE OR REPLACE VIEW active_users AS SELECT 1;',
+                downSql: '',
+                checksum: computeChecksum('CREATE OR REPLACE VIEW active_users AS SELECT 1;'),
+                noTransaction: false,
+                repeatable: true
+            }
+        ]);
+    });
+
+    it('should merge several directories', () => {
+        fs.mkdirSync(path.join(tmpDir, 'core'));
+        fs.mkdirSync(path.join(tmpDir, 'billing'));
+        fs.writeFileSync(path.join(tmpDir, 'core', '20260101000000_users.sql'), sql('users'));
+        fs.writeFileSync(path.join(tmpDir, 'billing', '20260102000000_invoices.sql'), sql('i'));
+
+        const source = new FilesystemMigrationSource([
+            path.join(tmpDir, 'core'),
+            path.join(tmpDir, 'billing'),
+            path.join(tmpDir, 'missing')
+        ]);
+
+        expect(filenames(source)).toEqual([
+            '20260101000000_users.sql',
+            '20260102000000_invoices.sql'
+        ]);
+    });
+
+    it('should read subdirectories when recursive, naming files by relative path', () => {
+        fs.mkdirSync(path.join(tmpDir, '2025', 'q4'), { recursive: true });
+        fs.mkdirSync(path.join(tmpDir, '.archive'));
+        fs.writeFileSync(path.join(tmpDir, '20260101000000_users.sql'), sql('users'));
+        fs.writeFileSync(path.join(tmpDir, '2025', 'q4', '20251201000000_orders.sql'), sql('o'));
+        fs.writeFileSync(path.join(tmpDir, '.archive', '20240101000000_old.sql'), sql('old'));
+
+        expect(filenames(new FilesystemMigrationSource(tmpDir))).toEqual([
+            '20260101000000_users.sql'
+        ]);
+
+        const source = new FilesystemMigrationSource(tmpDir, { recursive: true });
+        expect(filenames(source)).toEqual([
+            '2025/q4/20251201000000_orders.sql',
+            '20260101000000_users.sql'
+        ]);
+        expect(source.readMigrations().find((m) => m.name === 'orders')!.version).toBe(
+            '20251201000000'
+        );
+    });
+
+    it('should throw MigrationDuplicateVersionError naming both files', () => {
+        fs.mkdirSync(path.join(tmpDir, 'core'));
+        fs.mkdirSync(path.join(tmpDir, 'billing'));
+        const first = path.join(tmpDir, 'core', '20260101000000_users.sql');
+        const second = path.join(tmpDir, 'billing', '20260101000000_invoices.js');
+        fs.writeFileSync(first, sql('users'));
+        fs.writeFileSync(second, 'exports.up = () => {};');
+
+        const source = new FilesystemMigrationSource([
+            path.join(tmpDir, 'core'),
+            path.join(tmpDir, 'billing')
+        ]);
+
+        expect(() => source.readMigrations()).toThrow(MigrationDuplicateVersionError);
+        expect(() => source.readMigrations()).toThrow(
+            `Duplicate migration version 20260101000000: ${first} and ${second}.`
+        );
+    });
+
+    it('should list every file for listFiles()', () => {
+        fs.mkdirSync(path.join(tmpDir, 'nested'));
+        fs.writeFileSync(path.join(tmpDir, 'notes.txt'), '');
+        fs.writeFileSync(path.join(tmpDir, 'nested', '20260101000000_users.sql'), sql('users'));
+
+        expect(new FilesystemMigrationSource(tmpDir).listFiles()).toEqual([
+            path.join(tmpDir, 'notes.txt')
+        ]);
+        expect(
+            new FilesystemMigrationSource(tmpDir, { recursive: true }).listFiles().sort()
+        ).toEqual([
+            path.join(tmpDir, 'nested', '20260101000000_users.sql'),
+            path.join(tmpDir, 'notes.txt')
+        ]);
+    });
+
+    it('should return an empty array if the directory does not exist', () => {
+        expect(
+            new FilesystemMigrationSource(path.join(tmpDir, 'missing')).readMigrations()
+        ).toEqual([]);
+    });
+
+    it('should warn about and skip files without an UP section', () => {
+        fs.writeFileSync(path.join(tmpDir, '20260101000000_broken.sql'), 'CREATE TABLE x ();');
+        const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+        expect(new FilesystemMigrationSource(tmpDir).readMigrations(logger)).toEqual([]);
+        expect(logger.warn).toHaveBeenCalledWith(
+            "Skipping 20260101000000_broken.sql: missing '-- migrate:up' marker"
+        );
+    });
+});
+
+// ─── GlobMigrationSource ─────────────────────────────────────────────────────
+
+describe('GlobMigrationSource', () => {
+    let tmpDir: string;
+
+    const write = (relative: string, content = sql('t')) => {
+        const filePath = path.join(tmpDir, relative);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-glob-'));
+        write('db/migrations/20260101000000_users.sql');
+        write('plugins/billing/migrations/20260201000000_invoices.sql');
+        write('plugins/audit/migrations/20260301000000_audit_log.sql');
+        write('plugins/audit/migrations/nested/20260401000000_audit_index.sql');
+        write('plugins/node_modules/dep/migrations/20260501000000_ignored.sql');
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should read several directories', () => {
+        const source = new GlobMigrationSource(['db/migrations', 'plugins/billing/migrations'], {
+            cwd: tmpDir
+        });
+
+        expect(source.description).toBe('db/migrations, plugins/billing/migrations');
+        expect(filenames(source)).toEqual([
+            '20260101000000_users.sql',
+            '20260201000000_invoices.sql'
+        ]);
+    });
+
+    it('should expand * within a path segment', () => {
+        const source = new GlobMigrationSource('plugins/*/migrations', { cwd: tmpDir });
+
+        expect(filenames(source)).toEqual([
+            '20260201000000_invoices.sql',
+            '20260301000000_audit_log.sql'
+        ]);
+    });
+
+    it('should expand ** across directories, skipping node_modules', () => {
+        const source = new GlobMigrationSource('plugins/**/*.sql', { cwd: tmpDir });
+
+        expect(filenames(source)).toEqual([
+            'audit/migrations/20260301000000_audit_log.sql',
+            'audit/migrations/nested/20260401000000_audit_index.sql',
+            'billing/migrations/20260201000000_invoices.sql'
+        ]);
+    });
+
+    it('should read a file listed twice only once', () => {
+        const source = new GlobMigrationSource(['db/migrations', 'db/**/*.sql'], { cwd: tmpDir });
+        expect(filenames(source)).toEqual(['20260101000000_users.sql']);
+    });
+
+    it('should ignore patterns that match nothing', () => {
+        const source = new GlobMigrationSource(['missing', 'nothing/*/here'], { cwd: tmpDir });
+        expect(source.readMigrations()).toEqual([]);
+    });
+});
+
+// ─── MemoryMigrationSource ───────────────────────────────────────────────────
+
+describe('MemoryMigrationSource', () => {
+    it('should build migrations from SQL strings', () => {
+        const source = new MemoryMigrationSource([
+            {
+                version: '20260101000000',
+                name: 'create_users',
+                up: '\n  CREATE TABLE users (id serial);\n',
+                down: 'DROP TABLE users;'
+            }
+        ]);
+
+        expect(source.readMigrations()).toEqual([
+            {
+                version: '20260101000000',
+                name: 'create_users',
+                filename: '20260101000000_create_users',
+                upSql: 'CREATE TABLE users (id serial);',
+                downSql: 'DROP TABLE users;',
+                checksum: computeChecksum('CREATE TABLE users (id serial);'),
+                noTransaction: false
+            }
+        ]);
+    });
+
+    it('should keep up/down functions as an in-memory module', () => {
+        const up = jest.fn();
+        const [migration] = new MemoryMigrationSource([
+            { version: '20260101000000', name: 'backfill', up }
+        ]).readMigrations();
+
+        expect(migration.module).toEqual({ up, down: undefined });
+        expect(migration.modulePath).toBeUndefined();
+        expect(migration.checksum).toBe(computeChecksum(up.toString()));
+    });
+
+    it('should throw MigrationParseError for an invalid version', () => {
+        expect(
+            () => new MemoryMigrationSource([{ version: '2026', name: 'users', up: 'SELECT 1' }])
+        ).toThrow(MigrationParseError);
+    });
+
+    it('should throw MigrationParseError for an empty UP section', () => {
+        expect(
+            () =>
+                new MemoryMigrationSource([{ version: '20260101000000', name: 'users', up: '   ' }])
+        ).toThrow(/empty UP section/);
+    });
+});
@@ -1,4 +1,4 @@
-import { validateMigrationSQL } from '../src/validator';
+import { validateMigrationSQL, validateMigrationFile } from '../src/validator';
 
 // ─── UP section checks ──────────────────────────────────────────────────────
 
@@ -199,6 +199,41 @@ describe('validateMigrationSQL', () => {
         );
     });
 
+    it('should not warn for ALTER TYPE ADD VALUE in a no-transaction migration', () => {
+        const warnings = validateMigrationSQL(
+            "ALTER TYPE user_role ADD VALUE 'moderator';",
+            'SELECT 1;',
+            undefined,
+            { noTransaction: true }
+        );
+        expect(warnings).toEqual([]);
+    });
+
+    it('should warn for CONCURRENTLY in UP and DOWN without the directive', () => {
+        const warnings = validateMigrationSQL(
+            'CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_a ON t (a);',
+            'DROP INDEX CONCURRENTLY IF EXISTS idx_a;'
+        );
+        expect(warnings.filter((w) => w.message.includes('CONCURRENTLY'))).toHaveLength(2);
+        expect(warnings).toContainEqual(
+            expect.objectContaining({
+                level: 'warning',
+                message: expect.stringContaining('-- migrate:no-transaction'),
+                line: 1
+            })
+        );
+    });
+
+    it('should not warn for CONCURRENTLY in a no-transaction migration', () => {
+        const warnings = validateMigrationSQL(
+            'CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_a ON t (a);',
+            'DROP INDEX CONCURRENTLY IF EXISTS idx_a;',
+            undefined,
+            { noTransaction: true }
+        );
+        expect(warnings).toEqual([]);
+    });
+
     // ─── DOWN section checks ─────────────────────────────────────────────
 
     it('should warn when DOWN section is empty', () => {
@@ -579,3 +614,107 @@ ALTER TABLE users ADD COLUMN phone varchar(20);`,
         expect(addColWarnings).toHaveLength(2);
     });
 });
+
+// ─── Whole-file validation ──────────────────────────────────────────────────
+
+describe('validateMigrationFile', () => {
+    it('should return no warnings for a clean file', () => {
+        const content = `-- migrate:up
+CREATE TABLE IF NOT EXISTS users (id serial);
+
+-- migrate:down
+DROP TABLE IF EXISTS users CASCADE;
+`;
+        expect(validateMigrationFile('20260214120000_create_users.sql', content)).toEqual([]);
+    });
+
+    it('should warn about filenames the runner would skip', () => {
+        const warnings = validateMigrationFile('create_users.sql', '-- migrate:up\nSELECT 1;');
+        expect(warnings).toEqual([
+            expect.objectContaining({
+                level: 'warning',
+                message: expect.stringContaining('does not match')
+            })
+        ]);
+    });
+
+    it('should accept JS/TS migration modules without checking them as SQL', () => {
+        const content = "exports.up = async (client) => { await client.query('SELECT 1'); };";
+        for (const ext of ['js', 'ts', 'mjs']) {
+            expect(validateMigrationFile(`20260214120000_backfill.${ext}`, content)).toEqual([]);
+        }
+        expect(validateMigrationFile('backfill.js', content)).toEqual([
+            expect.objectContaining({ message: expect.stringContaining('does not match') })
+        ]);
+    });
+
+    it('should not require a DOWN section in a repeatable migration', () => {
+        const content = `-- migrate:up
+CREATE OR REPLACE VIEW active_users AS SELECT * FROM users WHERE active;
+`;
+        expect(validateMigrationFile('R__active_users.sql', content)).toEqual([]);
+        expect(validateMigrationFile('20260214120000_active_users.sql', content)).toEqual([
+            expect.objectContaining({ message: expect.stringContaining('Empty DOWN section') })
+        ]);
+    });
+
+    it('should honor the no-transaction directive', () => {
+        const content = `-- migrate:no-transaction
+-- migrate:up
+CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_a ON t (a);
+
+-- migrate:down
+DROP INDEX CONCURRENTLY IF EXISTS idx_a;
+`;
+        expect(validateMigrationFile('20260214120000_add_index.sql', content)).toEqual([]);
+    });
+
+    it('should report a missing migrate:up marker as an error', () => {
+        const warnings = validateMigrationFile('20260214120000_bad.sql', 'SELECT 1;');
+        expect(warnings).toEqual([
+            expect.objectContaining({
+                level: 'error',
+                message: expect.stringContaining('-- migrate:up')
+            })
+        ]);
+    });
+
+    it('should report line numbers relative to the file', () => {
+        const content = `-- Migration: create users
+
+-- migrate:up
+SELECT 1;
+CREATE TABLE users (id serial);
+
+-- migrate:down
+
+DROP TABLE users;
+`;
+        const warnings = validateMigrationFile('20260214120000_create_users.sql', content);
+
+        expect(warnings).toContainEqual(
+            expect.objectContaining({
+                level: 'error',
+                message: expect.stringContaining('CREATE TABLE without IF NOT EXISTS'),
+                line: 5
+            })
+        );
+        expect(warnings).toContainEqual(
+            expect.objectContaining({
+                level: 'error',
+                message: expect.stringContaining('DROP TABLE without IF EXISTS in DOWN'),
+                line: 9
+            })
+        );
+    });
+
+    it('should report the same findings as validateMigrationSQL', () => {
+        const upSql = 'TRUNCATE logs;';
+        const content = `-- migrate:up\n${upSql}\n`;
+
+        const fromFile = validateMigrationFile('20260214120000_truncate.sql', content);
+        const fromSql = validateMigrationSQL(upSql, '');
+
+        expect(fromFile.map((w) => w.message)).toEqual(fromSql.map((w) => w.message));
+    });
+});
@@ -6,18 +6,51 @@
  *
  * Commands:
  *   pg-migrate-runner up              Apply all pending migrations
+ *   pg-migrate-runner up --to <ver>   Apply pending migrations up to <ver> (inclusive)
  *   pg-migrate-runner status          Show migration status
  *   pg-migrate-runner rollback [N]    Rollback last N migrations (default: 1)
+ *   pg-migrate-runner rollback --to <ver>  Rollback every migration newer than <ver>
  *   pg-migrate-runner create <name>   Create a new migration file
+ *   pg-migrate-runner verify          Check applied migrations against their checksums
+ *   pg-migrate-runner repair [V...]   Re-sync stored checksums with the current files
+ *   pg-migrate-runner resolve <ver> --as applied|pending  Clear a failed (dirty) migration
+ *   pg-migrate-runner lint [files...] Validate migration files (no database needed)
+ *   pg-migrate-runner lock status     Show who holds the migration advisory lock
+ *   pg-migrate-runner lock release --force  Terminate the backend holding the lock
+ *   pg-migrate-runner wait            Wait until no migrations are pending
+ *   pg-migrate-runner seed            Run seed files (run-once and -- seed:always)
  *
  * Flags:
  *   --dry-run       Preview changes without modifying the database
- *   --dir <path>    Path to migration files directory
+ *   --dry-run execute  (up, rollback) Run the SQL in a transaction that is always rolled back
+ *   --print-sql     (up) Print the SQL script that would run (a dry run), for psql
+ *   --output <path> (up) Write the --print-sql script to a file instead of stdout
+ *   --config <path> Path to a config file (default: discovered in the working directory)
+ *   --env <name>    Use the named profile from the config file's "environments"
+ *   --yes, -y       Skip confirmation prompts (e.g. rollback with confirmRollback)
+ *   --force         Required by lock release
+ *   --dir <path>    Path to migration files directory (repeat for several)
+ *   --recursive     Also read migrations from subdirectories of --dir
+ *   --seeds-dir <path>  Path to seed files directory (repeat for several)
+ *   --var <key=value>   Value for a ${key} placeholder in migration SQL (repeat for several)
  *   --table <name>  Name of the tracking table (default: schema_migrations)
  *   --no-lock       Disable advisory locking
+ *   --lock-timeout <ms>  Wait up to <ms> for the advisory lock instead of failing at once
+ *   --strict-checksums  Abort up/rollback if an applied migration was modified
+ *   --validate <mode>   Validate pending migration SQL before up: off | warn | error
+ *   --atomic <mode>     (up) Transaction scope: per-migration (default) | all
+ *   --max-warnings <N>  (lint) Fail when more than N warnings are found
+ *   --timeout <ms>      (wait) Give up after <ms> (default: 60000)
+ *   --poll <ms>         (wait) Delay between checks (default: 1000)
+ *   --json              Print results (and errors) as a single JSON document
+ *   --format <fmt>      Output format: text (default) | json
  *   --help, -h      Show help
  *   --version, -v   Show version
  *
+ * Config File:
+ *   pg-migrate-runner.config.{json,js,cjs} or a "pgMigrateRunner" key in package.json.
+ *   CLI flags override the config file; the config file overrides environment variables.
+ *
  * Environment Variables:
  *   DATABASE_URL / POSTGRESQL_URL     Connection string
  *   POSTGRESQL_HOST / PG_HOST         Host (default: localhost)
@@ -27,9 +60,28 @@
  *   POSTGRESQL_PASSWORD / PG_PASSWORD Password
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { PoolClient } from 'pg';
+
 import { createMigrationRunner } from './factory';
-import { MigrationLockError } from './errors';
-import { MigrationConfig } from './types';
+import { loadConfigFile, resolveEnvironment, ResolveEnvironmentOptions } from './config';
+import { DEFAULT_LOCK_ID, describeLockHolder, describeMigration } from './helpers';
+import { forceReleaseLock, getLockHolder } from './lock';
+import { MigrationLockError, MigrationValidationError, MigrationWaitTimeoutError } from './errors';
+import {
+    AtomicMode,
+    DryRunMode,
+    LockHolder,
+    MigrationConfig,
+    MigrationResult,
+    ValidationMode,
+    ValidationWarning
+} from './types';
+import { validateMigrationFile } from './validator';
+import { FilesystemMigrationSource } from './sources';
 
 // ─── ANSI Colors (no dependency needed) ──────────────────────────────────────
 
@@ -54,6 +106,14 @@ function getVersion(): string {
     }
 }
 
+function getOsUser(): string | undefined {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return undefined;
+    }
+}
+
 function printHelp(): void {
     console.log(`
 ${color.bold('pg-migrate-runner')} v${getVersion()}
@@ -63,18 +123,61 @@ ${color.bold('Usage:')}
 
 ${color.bold('Commands:')}
   up                    Apply all pending migrations
+  up --to <version>     Apply pending migrations up to and including <version>
   status                Show migration status
   rollback [N]          Rollback last N migrations (default: 1)
+  rollback --to <ver>   Rollback every migration newer than <ver>
   create <name>         Create a new migration file
+  verify                Check applied migrations against their checksums
+  repair [version...]   Re-sync stored checksums with the current files
+  resolve <version> --as applied|pending
+                        Clear a failed (dirty) migration after fixing the database
+  lint [files...]       Validate migration files without a database connection
+  lock status           Show who holds the migration advisory lock
+  lock release --force  Terminate the backend holding the lock (asks for confirmation)
+  wait                  Wait until no migrations are pending (exits 1 on timeout)
+  seed                  Run seed files: new ones once, '-- seed:always' ones every time
 
 ${color.bold('Options:')}
   --dry-run             Preview changes without modifying the database
-  --dir <path>          Path to migration files directory (default: ./migrations)
+  --dry-run execute     (up, rollback) Run the SQL in a transaction that is always
+                        rolled back, reporting errors, timings and row counts
+  --print-sql           (up) Dry run that prints the full SQL script, ready for psql
+  --output <path>       (up) Write the --print-sql script to <path> instead of stdout
+  --config <path>       Path to a config file (default: discovered in the working directory)
+  --env <name>          Use the named profile from the config file's "environments"
+  -y, --yes             Skip confirmation prompts (e.g. rollback with confirmRollback)
+  --force               Required by lock release
+  --dir <path>          Path to migration files directory (default: ./migrations);
+                        repeat to merge several directories
+  --recursive           Also read migrations from subdirectories of --dir
+  --seeds-dir <path>    Path to seed files directory (default: ./models/seeds);
+                        repeat to run several directories in order
+  --var <key=value>     Value for a \${key} placeholder in migration SQL;
+                        repeat for several (overrides the config file's "variables")
   --table <name>        Name of the tracking table (default: schema_migrations)
   --no-lock             Disable advisory locking
+  --lock-timeout <ms>   Wait up to <ms> for the advisory lock instead of failing
+                        immediately (0 = fail immediately)
+  --strict-checksums    Abort up/rollback if an applied migration was modified
+                        (always on when CI is set)
+  --validate <mode>     Validate pending migration SQL before up: off | warn | error
+                        (default: off)
+  --atomic <mode>       (up) per-migration: one transaction per file (default)
+                        all: one transaction for the whole batch
+  --max-warnings <N>    (lint) Fail when more than N warnings are found
+  --timeout <ms>        (wait) Give up after <ms> (default: 60000)
+  --poll <ms>           (wait) Delay between checks (default: 1000)
+  --json                Print results (and errors) as a single JSON document
+  --format <fmt>        Output format: text (default) | json
   -h, --help            Show this help message
   -v, --version         Show version
 
+${color.bold('Config File:')}
+  pg-migrate-runner.config.json / .js / .cjs, or a "pgMigrateRunner" key in package.json.
+  CLI flags override the config file; the config file overrides environment variables.
+  Named profiles live under "environments" and are selected with --env.
+
 ${color.bold('Environment Variables:')}
   DATABASE_URL          PostgreSQL connection string
   POSTGRESQL_URL        Alternative connection string
@@ -88,11 +191,32 @@ ${color.bold('Environment Variables:')}
 ${color.bold('Examples:')}
   pg-migrate-runner up
   pg-migrate-runner up --dry-run
+  pg-migrate-runner up --dry-run execute
+  pg-migrate-runner up --print-sql --output deploy.sql
+  pg-migrate-runner up --to 20240115143000
+  pg-migrate-runner up --validate error
+  pg-migrate-runner up --atomic all
   pg-migrate-runner status
   pg-migrate-runner rollback 3
+  pg-migrate-runner rollback --to 20240115143000
   pg-migrate-runner rollback --dry-run
   pg-migrate-runner create add_users_table
+  pg-migrate-runner verify
+  pg-migrate-runner repair --dry-run
+  pg-migrate-runner repair 20240115143000
+  pg-migrate-runner resolve 20240115143000 --as pending
+  pg-migrate-runner lint --max-warnings 0
+  pg-migrate-runner lock status
+  pg-migrate-runner lock release --force
+  pg-migrate-runner wait --timeout 300000
+  pg-migrate-runner seed --env dev
+  pg-migrate-runner status --json
   pg-migrate-runner up --dir ./db/migrations --no-lock
+  pg-migrate-runner up --var owner=app_owner --var tablespace=fast_ssd
+  pg-migrate-runner up --lock-timeout 120000
+  pg-migrate-runner up --config ./config/migrations.json
+  pg-migrate-runner up --env staging
+  pg-migrate-runner rollback --env prod --yes
 `);
 }
 
@@ -101,9 +225,29 @@ ${color.bold('Examples:')}
 interface ParsedArgs {
     command: string;
     dryRun: boolean;
-    dir?: string;
+    dryRunExecute: boolean;
+    printSql: boolean;
+    output?: string;
+    config?: string;
+    env?: string;
+    yes: boolean;
+    force: boolean;
+    dir?: string[];
+    recursive: boolean;
+    seedsDir?: string[];
+    variables?: Record<string, string>;
     table?: string;
+    to?: string;
+    as?: 'applied' | 'pending';
     noLock: boolean;
+    lockTimeout?: number;
+    strictChecksums: boolean;
+    validate?: ValidationMode;
+    atomic?: AtomicMode;
+    maxWarnings?: number;
+    timeout?: number;
+    poll?: number;
+    json: boolean;
     rest: string[];
 }
 
@@ -112,7 +256,17 @@ function parseArgs(argv: string[]): ParsedArgs {
     const result: ParsedArgs = {
         command: '',
         dryRun: false,
+        dryRunExecute: false,
+        printSql: false,
+        yes: false,
+        force: false,
+        recursive: false,
         noLock: false,
+        strictChecksums: false,
+        // Decided up front so that argument errors are reported in the requested format
+        json:
+            args.includes('--json') ||
+            args.some((a, i) => a === '--format' && args[i + 1] === 'json'),
         rest: []
     };
 
@@ -122,12 +276,98 @@ function parseArgs(argv: string[]): ParsedArgs {
 
         if (arg === '--dry-run') {
             result.dryRun = true;
+            if (args[i + 1] === 'execute') {
+                result.dryRunExecute = true;
+                i++;
+            }
+        } else if (arg === '--print-sql') {
+            result.printSql = true;
+        } else if (arg === '--output' && i + 1 < args.length) {
+            result.output = args[++i];
         } else if (arg === '--no-lock') {
             result.noLock = true;
+        } else if (arg === '--strict-checksums') {
+            result.strictChecksums = true;
+        } else if (arg === '--config' && i + 1 < args.length) {
+            result.config = args[++i];
+        } else if (arg === '--env' && i + 1 < args.length) {
+            result.env = args[++i];
+        } else if (arg === '--yes' || arg === '-y') {
+            result.yes = true;
+        } else if (arg === '--force') {
+            result.force = true;
         } else if (arg === '--dir' && i + 1 < args.length) {
-            result.dir = args[++i];
+            result.dir = [...(result.dir ?? []), args[++i]];
+        } else if (arg === '--recursive') {
+            result.recursive = true;
+        } else if (arg === '--seeds-dir' && i + 1 < args.length) {
+            result.seedsDir = [...(result.seedsDir ?? []), args[++i]];
+        } else if (arg === '--var' && i + 1 < args.length) {
+            const value = args[++i];
+            const eq = value.indexOf('=');
+            if (eq <= 0) {
+                usageError(result, `Invalid --var value: ${value} (expected key=value)`);
+            }
+            result.variables = { ...result.variables, [value.slice(0, eq)]: value.slice(eq + 1) };
         } else if (arg === '--table' && i + 1 < args.length) {
             result.table = args[++i];
+        } else if (arg === '--to' && i + 1 < args.length) {
+            result.to = args[++i];
+        } else if (arg === '--as' && i + 1 < args.length) {
+            const as = args[++i];
+            if (as !== 'applied' && as !== 'pending') {
+                usageError(result, `Invalid --as value: ${as} (expected applied or pending)`);
+            }
+            result.as = as;
+        } else if (arg === '--validate' && i + 1 < args.length) {
+            const mode = args[++i];
+            if (mode !== 'off' && mode !== 'warn' && mode !== 'error') {
+                usageError(
+                    result,
+                    `Invalid --validate mode: ${mode} (expected off, warn or error)`
+                );
+            }
+            result.validate = mode;
+        } else if (arg === '--atomic' && i + 1 < args.length) {
+            const mode = args[++i];
+            if (mode !== 'per-migration' && mode !== 'all') {
+                usageError(
+                    result,
+                    `Invalid --atomic mode: ${mode} (expected per-migration or all)`
+                );
+            }
+            result.atomic = mode;
+        } else if (arg === '--lock-timeout' && i + 1 < args.length) {
+            const value = args[++i];
+            result.lockTimeout = Number(value);
+            if (!Number.isInteger(result.lockTimeout) || result.lockTimeout < 0) {
+                usageError(result, `Invalid --lock-timeout value: ${value}`);
+            }
+        } else if (arg === '--max-warnings' && i + 1 < args.length) {
+            const value = args[++i];
+            result.maxWarnings = Number(value);
+            if (!Number.isInteger(result.maxWarnings) || result.maxWarnings < 0) {
+                usageError(result, `Invalid --max-warnings value: ${value}`);
+            }
+        } else if (arg === '--timeout' && i + 1 < args.length) {
+            const value = args[++i];
+            result.timeout = Number(value);
+            if (!Number.isInteger(result.timeout) || result.timeout < 0) {
+                usageError(result, `Invalid --timeout value: ${value}`);
+            }
+        } else if (arg === '--poll' && i + 1 < args.length) {
+            const value = args[++i];
+            result.poll = Number(value);
+            if (!Number.isInteger(result.poll) || result.poll <= 0) {
+                usageError(result, `Invalid --poll value: ${value}`);
+            }
+        } else if (arg === '--json') {
+            result.json = true;
+        } else if (arg === '--format' && i + 1 < args.length) {
+            const format = args[++i];
+            if (format !== 'text' && format !== 'json') {
+                usageError(result, `Invalid --format: ${format} (expected text or json)`);
+            }
         } else if (arg === '--help' || arg === '-h') {
             printHelp();
             process.exit(0);
@@ -141,25 +381,159 @@ function parseArgs(argv: string[]): ParsedArgs {
                 result.rest.push(arg);
             }
         } else {
-            console.error(color.red(`Unknown option: ${arg}`));
-            printHelp();
-            process.exit(1);
+            usageError(result, `Unknown option: ${arg}`, true);
         }
 
         i++;
     }
 
+    if (result.output && !result.printSql) {
+        usageError(result, '--output requires --print-sql');
+    }
+    if (result.dryRunExecute && result.command !== 'up' && result.command !== 'rollback') {
+        usageError(result, '--dry-run execute is only supported by up and rollback');
+    }
+
     return result;
 }
 
-function buildConfig(parsed: ParsedArgs): Partial<MigrationConfig> {
-    const config: Partial<MigrationConfig> = {};
-    if (parsed.dir) config.migrationsDir = parsed.dir;
+function buildConfig(
+    parsed: ParsedArgs,
+    options?: ResolveEnvironmentOptions
+): Partial<MigrationConfig> {
+    // Config file (with the selected profile applied) first, then flags on top;
+    // env vars are the factory's fallback
+    const fileConfig = loadConfigFile({ configPath: parsed.config }).config;
+    const config = resolveEnvironment(
+        {
+            ...fileConfig,
+            ...(parsed.env && { environment: parsed.env })
+        },
+        options
+    );
+    if (parsed.dir) config.migrationsDir = parsed.dir.length === 1 ? parsed.dir[0] : parsed.dir;
+    if (parsed.recursive) config.recursive = true;
+    if (parsed.seedsDir) {
+        config.seedsDir = parsed.seedsDir.length === 1 ? parsed.seedsDir[0] : parsed.seedsDir;
+    }
+    if (parsed.variables) config.variables = { ...config.variables, ...parsed.variables };
     if (parsed.table) config.tableName = parsed.table;
     if (parsed.noLock) config.useLock = false;
+    if (parsed.lockTimeout !== undefined) {
+        config.lockStrategy = parsed.lockTimeout > 0 ? 'wait' : 'fail';
+        config.lockTimeoutMs = parsed.lockTimeout;
+    }
+    if (parsed.strictChecksums) config.strictChecksums = true;
+    if (parsed.validate) config.validate = parsed.validate;
+    // The default logger writes to stdout, which must hold nothing but the JSON document
+    // (or the SQL script)
+    if (parsed.json || (parsed.printSql && !parsed.output)) config.logger = false;
     return config;
 }
 
+/**
+ * Ask a yes/no question on the terminal. Anything but "y" / "yes" counts as no.
+ */
+function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    return new Promise((resolve) => {
+        rl.question(`${question} [y/N] `, (answer) => {
+            rl.close();
+            resolve(/^y(es)?$/i.test(answer.trim()));
+        });
+    });
+}
+
+// ─── Output ──────────────────────────────────────────────────────────────────
+
+function printJson(value: unknown): void {
+    console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Serialize an error with its class name and any extra fields
+ * (e.g. `lockId`, `mismatches`, `findings`) for `--json` output.
+ * Nested errors (e.g. a hook error's `cause`) become `{ name, message }`,
+ * since JSON.stringify turns an Error into `{}`.
+ */
+function errorToJson(error: any): { error: Record<string, unknown> } {
+    if (!(error instanceof Error)) {
+        return { error: { name: 'Error', message: String(error) } };
+    }
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(error)) {
+        fields[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+    }
+    return { error: { ...fields, name: error.name, message: error.message } };
+}
+
+/**
+ * The dry-run mode for migrate() / rollback().
+ */
+function dryRunMode(parsed: ParsedArgs): DryRunMode {
+    return parsed.dryRunExecute ? 'execute' : parsed.dryRun;
+}
+
+/**
+ * Print one result line of `up` / `rollback`. In a `--dry-run execute` run, migrations that
+ * could not run inside the transaction are shown as not executed.
+ */
+function printResultLine(parsed: ParsedArgs, prefix: string, result: MigrationResult): void {
+    if (result.executed === false) {
+        console.log(
+            color.yellow(`  Not executed: ${describeMigration(result)}`) +
+                color.gray(' (no-transaction; cannot run in the dry-run transaction)')
+        );
+        return;
+    }
+    console.log(
+        color.green(`  ${prefix}: ${describeMigration(result)}`) + formatTiming(parsed, result)
+    );
+}
+
+/** Results that actually ran (all of them outside `--dry-run execute`). */
+function countExecuted(results: MigrationResult[]): number {
+    return results.filter((r) => r.executed !== false).length;
+}
+
+/** The end of a `--dry-run execute` completion line: "." or "; 2 not executed." */
+function formatNotExecuted(results: MigrationResult[]): string {
+    const notExecuted = results.length - countExecuted(results);
+    return notExecuted > 0 ? `; ${notExecuted} not executed.` : '.';
+}
+
+/**
+ * The gray " (12ms, 3 row(s))" after a result line; empty for a listing-only dry run.
+ */
+function formatTiming(parsed: ParsedArgs, result: MigrationResult): string {
+    if (parsed.dryRun && !parsed.dryRunExecute) return '';
+    const rows = result.rowCount !== undefined ? `, ${result.rowCount} row(s)` : '';
+    return color.gray(` (${result.execution_time_ms}ms${rows})`);
+}
+
+function usageError(parsed: ParsedArgs, message: string, showHelp = false): never {
+    if (parsed.json) {
+        printJson({ error: { name: 'UsageError', message } });
+    } else {
+        console.error(color.red(message));
+        if (showHelp) printHelp();
+    }
+    process.exit(1);
+}
+
+function printLockError(error: MigrationLockError): void {
+    const waited = error.timeoutMs !== undefined ? ` (waited ${error.timeoutMs}ms)` : '';
+    console.error(color.red(`Another migration is already in progress${waited}.`));
+    if (error.holder) {
+        console.error(color.gray(`Lock held by ${describeLockHolder(error.holder)}.`));
+    }
+    console.error(
+        color.gray(
+            'Wait for it to finish (or use --lock-timeout <ms>), or manually release the advisory lock.'
+        )
+    );
+}
+
 // ─── Commands ────────────────────────────────────────────────────────────────
 
 async function cmdUp(parsed: ParsedArgs): Promise<void> {
@@ -167,33 +541,98 @@ async function cmdUp(parsed: ParsedArgs): Promise<void> {
     const { runner, pool } = createMigrationRunner(config);
 
     try {
-        if (parsed.dryRun) {
+        if (parsed.json) {
+            const summary = await runner.migrate({
+                dryRun: dryRunMode(parsed),
+                printSql: parsed.printSql,
+                to: parsed.to,
+                atomic: parsed.atomic
+            });
+            if (parsed.output) fs.writeFileSync(parsed.output, summary.sql!);
+            printJson(summary);
+            if (summary.failed) process.exitCode = 1;
+            return;
+        }
+
+        if (parsed.printSql) {
+            const summary = await runner.migrate({
+                printSql: true,
+                to: parsed.to,
+                atomic: parsed.atomic
+            });
+            if (parsed.output) {
+                fs.writeFileSync(parsed.output, summary.sql!);
+                console.log(
+                    color.green(
+                        `Wrote the SQL for ${summary.total_applied} migration(s) to ${parsed.output}.`
+                    )
+                );
+            } else {
+                process.stdout.write(summary.sql!);
+            }
+            return;
+        }
+
+        if (parsed.dryRunExecute) {
+            console.log(
+                color.cyan(
+                    'Dry run — executing pending migrations in a transaction that will be rolled back...'
+                )
+            );
+        } else if (parsed.dryRun) {
             console.log(color.cyan('Dry run — previewing pending migrations...'));
         } else {
             console.log(color.cyan('Checking for pending migrations...'));
         }
 
-        const summary = await runner.migrate({ dryRun: parsed.dryRun });
+        const summary = await runner.migrate({
+            dryRun: dryRunMode(parsed),
+            to: parsed.to,
+            atomic: parsed.atomic
+        });
 
         if (summary.total_pending === 0) {
             console.log(color.green('Database is up to date. No pending migrations.'));
             return;
         }
 
-        const prefix = parsed.dryRun ? 'Would apply' : 'Applied';
+        const prefix = parsed.dryRunExecute
+            ? 'Executed'
+            : parsed.dryRun
+              ? 'Would apply'
+              : 'Applied';
         for (const result of summary.applied) {
-            const timeStr = parsed.dryRun ? '' : color.gray(` (${result.execution_time_ms}ms)`);
-            console.log(color.green(`  ${prefix}: ${result.version}_${result.name}`) + timeStr);
+            printResultLine(parsed, prefix, result);
         }
 
         if (summary.failed) {
-            console.error(color.red(`  Failed: ${summary.failed.version}_${summary.failed.name}`));
+            console.error(color.red(`  Failed: ${describeMigration(summary.failed)}`));
             console.error(color.red(`    Error: ${summary.failed.error}`));
+            if (parsed.dryRunExecute) {
+                console.error(
+                    color.red('  The dry-run transaction was rolled back — nothing changed.')
+                );
+            } else if (parsed.atomic === 'all') {
+                console.error(
+                    color.red('  The whole batch was rolled back — nothing was applied.')
+                );
+            }
             process.exitCode = 1;
             return;
         }
 
-        if (parsed.dryRun) {
+        for (const skipped of summary.skipped) {
+            console.log(color.gray(`  Left pending: ${describeMigration(skipped)}`));
+        }
+
+        if (parsed.dryRunExecute) {
+            console.log(
+                color.cyan(
+                    `\nDry run complete: ${countExecuted(summary.applied)} migration(s) ran and were rolled back` +
+                        formatNotExecuted(summary.applied)
+                )
+            );
+        } else if (parsed.dryRun) {
             console.log(
                 color.cyan(
                     `\nDry run complete: ${summary.total_applied} migration(s) would be applied.`
@@ -205,11 +644,18 @@ async function cmdUp(parsed: ParsedArgs): Promise<void> {
             );
         }
     } catch (error: any) {
+        if (parsed.json) throw error;
         if (error instanceof MigrationLockError) {
-            console.error(color.red('Another migration is already in progress.'));
-            console.error(
-                color.gray('Wait for it to finish or manually release the advisory lock.')
-            );
+            printLockError(error);
+            process.exitCode = 1;
+            return;
+        }
+        if (error instanceof MigrationValidationError) {
+            console.error(color.red(`SQL validation failed — no migrations were applied.`));
+            for (const f of error.findings) {
+                const line = f.line !== undefined ? color.gray(`:${f.line}`) : '';
+                console.error(`  ${f.filename}${line}  ${color.red(f.message)}`);
+            }
             process.exitCode = 1;
             return;
         }
@@ -226,6 +672,11 @@ async function cmdStatus(parsed: ParsedArgs): Promise<void> {
     try {
         const status = await runner.getStatus();
 
+        if (parsed.json) {
+            printJson(status);
+            return;
+        }
+
         if (status.length === 0) {
             console.log(color.yellow('No migration files found.'));
             return;
@@ -244,11 +695,17 @@ async function cmdStatus(parsed: ParsedArgs): Promise<void> {
 
         for (const m of status) {
             const statusStr =
-                m.status === 'applied'
-                    ? m.checksumMismatch
-                        ? color.yellow('MODIFIED')
-                        : color.green('Applied')
-                    : color.cyan('Pending');
+                m.status === 'failed'
+                    ? color.red('FAILED')
+                    : m.status === 'repeatable'
+                      ? m.outdated
+                          ? color.cyan('Outdated')
+                          : color.green('Current')
+                      : m.status === 'applied'
+                        ? m.checksumMismatch
+                            ? color.yellow('MODIFIED')
+                            : color.green('Applied')
+                        : color.cyan('Pending');
 
             const appliedAt = m.applied_at
                 ? new Date(m.applied_at).toISOString().replace('T', ' ').substring(0, 19)
@@ -256,63 +713,126 @@ async function cmdStatus(parsed: ParsedArgs): Promise<void> {
 
             const time = m.execution_time_ms !== undefined ? String(m.execution_time_ms) : '-';
 
+            // Repeatable migrations have no timestamp; their version is R__<name>
+            const version = m.status === 'repeatable' ? 'R' : m.version;
+
             console.log(
-                m.version.padEnd(16) +
+                version.padEnd(16) +
                     m.name.padEnd(45) +
                     statusStr.padEnd(22) +
                     appliedAt.padEnd(22) +
                     time
             );
+            if (m.error) {
+                console.log(color.red(`${''.padEnd(16)}Error: ${m.error}`));
+            }
         }
 
         const summary = await runner.getSummary();
         console.log(
-            `\nTotal: ${summary.total} | Applied: ${summary.applied} | Pending: ${summary.pending}`
+            `\nTotal: ${summary.total} | Applied: ${summary.applied} | Pending: ${summary.pending}` +
+                (summary.failed > 0 ? ` | ${color.red(`Failed: ${summary.failed}`)}` : '')
         );
+        if (summary.failed > 0) {
+            console.log(
+                color.gray(
+                    'Fix the database manually, then run: pg-migrate-runner resolve <version> --as applied|pending'
+                )
+            );
+        }
     } finally {
         await pool.end();
     }
 }
 
 async function cmdRollback(parsed: ParsedArgs): Promise<void> {
-    const count = parseInt(parsed.rest[0], 10) || 1;
+    const countArg = parsed.rest[0];
+    if (countArg !== undefined && !/^[1-9][0-9]*$/.test(countArg)) {
+        usageError(parsed, `Rollback count must be a positive integer, got '${countArg}'.`);
+    }
+    const count = countArg === undefined ? 1 : Number(countArg);
+
     const config = buildConfig(parsed);
     const { runner, pool } = createMigrationRunner(config);
 
     try {
-        if (count < 1) {
-            console.error(color.red('Rollback count must be at least 1.'));
-            process.exitCode = 1;
+        if (config.confirmRollback && !parsed.dryRun && !parsed.yes) {
+            const where = parsed.env ? `environment '${parsed.env}'` : 'this configuration';
+            if (parsed.json || !process.stdin.isTTY) {
+                usageError(
+                    parsed,
+                    `Rollback on ${where} requires confirmation. Re-run with --yes to proceed.`
+                );
+            }
+            const what = parsed.to
+                ? `every migration newer than ${parsed.to}`
+                : `${count} migration(s)`;
+            if (!(await confirm(color.yellow(`Roll back ${what} on ${where}?`)))) {
+                console.log(color.yellow('Rollback cancelled.'));
+                process.exitCode = 1;
+                return;
+            }
+        }
+
+        if (parsed.json) {
+            const summary = await runner.rollback(count, {
+                dryRun: dryRunMode(parsed),
+                toVersion: parsed.to
+            });
+            printJson(summary);
+            if (summary.failed) process.exitCode = 1;
             return;
         }
 
-        if (parsed.dryRun) {
-            console.log(color.cyan(`Dry run — previewing rollback of ${count} migration(s)...`));
+        const target = parsed.to
+            ? `every migration newer than ${parsed.to}`
+            : `${count} migration(s)`;
+        if (parsed.dryRunExecute) {
+            console.log(
+                color.cyan(
+                    `Dry run — rolling back ${target} in a transaction that will be undone...`
+                )
+            );
+        } else if (parsed.dryRun) {
+            console.log(color.cyan(`Dry run — previewing rollback of ${target}...`));
         } else {
-            console.log(color.cyan(`Rolling back ${count} migration(s)...`));
+            console.log(color.cyan(`Rolling back ${target}...`));
         }
 
-        const summary = await runner.rollback(count, { dryRun: parsed.dryRun });
+        const summary = await runner.rollback(count, {
+            dryRun: dryRunMode(parsed),
+            toVersion: parsed.to
+        });
 
         if (summary.total_rolled_back === 0 && !summary.failed) {
             console.log(color.yellow('No migrations to roll back.'));
             return;
         }
 
-        const prefix = parsed.dryRun ? 'Would rollback' : 'Rolled back';
+        const prefix = parsed.dryRunExecute
+            ? 'Executed'
+            : parsed.dryRun
+              ? 'Would rollback'
+              : 'Rolled back';
         for (const result of summary.rolledBack) {
-            const timeStr = parsed.dryRun ? '' : color.gray(` (${result.execution_time_ms}ms)`);
-            console.log(color.green(`  ${prefix}: ${result.version}_${result.name}`) + timeStr);
+            printResultLine(parsed, prefix, result);
         }
 
         if (summary.failed) {
-            console.error(color.red(`  Failed: ${summary.failed.version}_${summary.failed.name}`));
+            console.error(color.red(`  Failed: ${describeMigration(summary.failed)}`));
             console.error(color.red(`    Error: ${summary.failed.error}`));
             process.exitCode = 1;
             return;
         }
 
-        if (parsed.dryRun) {
+        if (parsed.dryRunExecute) {
+            console.log(
+                color.cyan(
+                    `\nDry run complete: ${countExecuted(summary.rolledBack)} migration(s) rolled back, then restored` +
+                        formatNotExecuted(summary.rolledBack)
+                )
+            );
+        } else if (parsed.dryRun) {
             console.log(
                 color.cyan(
                     `\nDry run complete: ${summary.total_rolled_back} migration(s) would be rolled back.`
@@ -326,11 +846,285 @@ async function cmdRollback(parsed: ParsedArgs): Promise<void> {
             );
         }
     } catch (error: any) {
+        if (parsed.json) throw error;
         if (error instanceof MigrationLockError) {
-            console.error(color.red('Another migration is already in progress.'));
+            printLockError(error);
+            process.exitCode = 1;
+            return;
+        }
+        throw error;
+    } finally {
+        await pool.end();
+    }
+}
+
+async function cmdVerify(parsed: ParsedArgs): Promise<void> {
+    const config = buildConfig(parsed);
+    const { runner, pool } = createMigrationRunner(config);
+
+    try {
+        if (parsed.json) {
+            const mismatches = await runner.verifyChecksums();
+            printJson(mismatches);
+            if (mismatches.length > 0) process.exitCode = 1;
+            return;
+        }
+
+        console.log(color.cyan('Verifying checksums of applied migrations...'));
+
+        const mismatches = await runner.verifyChecksums();
+
+        if (mismatches.length === 0) {
+            console.log(color.green('All applied migrations match their files.'));
+            return;
+        }
+
+        console.log(
+            '\n' + 'Version'.padEnd(16) + 'Name'.padEnd(45) + 'Expected'.padEnd(18) + 'Actual'
+        );
+        console.log('-'.repeat(97));
+
+        for (const m of mismatches) {
+            console.log(
+                m.version.padEnd(16) +
+                    m.name.padEnd(45) +
+                    m.expected.padEnd(18) +
+                    color.yellow(m.actual)
+            );
+        }
+
+        console.error(
+            color.red(
+                `\n${mismatches.length} applied migration(s) were modified after being applied.`
+            )
+        );
+        process.exitCode = 1;
+    } finally {
+        await pool.end();
+    }
+}
+
+async function cmdRepair(parsed: ParsedArgs): Promise<void> {
+    const config = buildConfig(parsed);
+    const { runner, pool } = createMigrationRunner(config);
+
+    try {
+        if (!parsed.json) {
+            if (parsed.dryRun) {
+                console.log(color.cyan('Dry run — previewing checksum repair...'));
+            } else {
+                console.log(color.cyan('Repairing checksums...'));
+            }
+        }
+
+        const summary = await runner.repair({
+            dryRun: parsed.dryRun,
+            versions: parsed.rest.length > 0 ? parsed.rest : undefined,
+            repairedBy: getOsUser()
+        });
+
+        if (parsed.json) {
+            printJson(summary);
+            return;
+        }
+
+        if (summary.repaired.length === 0) {
+            console.log(color.green('All checksums already match. Nothing to repair.'));
+            return;
+        }
+
+        console.log(
+            '\n' + 'Version'.padEnd(16) + 'Name'.padEnd(45) + 'Before'.padEnd(18) + 'After'
+        );
+        console.log('-'.repeat(97));
+
+        for (const r of summary.repaired) {
+            console.log(
+                r.version.padEnd(16) +
+                    r.name.padEnd(45) +
+                    r.before.padEnd(18) +
+                    color.green(r.after)
+            );
+        }
+
+        if (parsed.dryRun) {
+            console.log(
+                color.cyan(
+                    `\nDry run complete: ${summary.repaired.length} checksum(s) would be updated.`
+                )
+            );
+        } else {
+            console.log(color.greenBold(`\nRepaired ${summary.repaired.length} checksum(s).`));
+        }
+    } catch (error: any) {
+        if (parsed.json) throw error;
+        if (error instanceof MigrationLockError) {
+            printLockError(error);
+            process.exitCode = 1;
+            return;
+        }
+        throw error;
+    } finally {
+        await pool.end();
+    }
+}
+
+async function cmdResolve(parsed: ParsedArgs): Promise<void> {
+    const version = parsed.rest[0];
+    if (!version || !parsed.as) {
+        usageError(parsed, 'Usage: pg-migrate-runner resolve <version> --as applied|pending');
+    }
+
+    const config = buildConfig(parsed);
+    const { runner, pool } = createMigrationRunner(config);
+
+    try {
+        await runner.resolve(version, { as: parsed.as });
+
+        if (parsed.json) {
+            printJson({ version, resolvedAs: parsed.as });
+            return;
+        }
+
+        console.log(color.greenBold(`Resolved ${version} as ${parsed.as}.`));
+        if (parsed.as === 'pending') {
+            console.log(`Run ${color.bold('pg-migrate-runner up')} to apply it again.`);
+        }
+    } catch (error: any) {
+        if (parsed.json) throw error;
+        if (error instanceof MigrationLockError) {
+            printLockError(error);
+            process.exitCode = 1;
+            return;
+        }
+        throw error;
+    } finally {
+        await pool.end();
+    }
+}
+
+function printLockHolder(holder: LockHolder): void {
+    const rows: [string, string | number | null][] = [
+        ['PID', holder.pid],
+        ['User', holder.user],
+        ['Application', holder.applicationName],
+        ['Client address', holder.clientAddr],
+        ['Backend start', holder.backendStart],
+        ['State', holder.state],
+        ['Query', holder.query]
+    ];
+    for (const [label, value] of rows) {
+        console.log(`  ${color.gray(`${label}:`.padEnd(17))}${value ?? '-'}`);
+    }
+}
+
+async function cmdLock(parsed: ParsedArgs): Promise<void> {
+    const action = parsed.rest[0];
+    if (action !== 'status' && action !== 'release') {
+        usageError(parsed, 'Usage: pg-migrate-runner lock status | lock release --force');
+    }
+    if (action === 'release' && !parsed.force) {
+        usageError(
+            parsed,
+            'lock release terminates the backend holding the lock. Re-run with --force.'
+        );
+    }
+
+    const config = buildConfig(parsed);
+    const lockId = config.lockId ?? DEFAULT_LOCK_ID;
+    const { pool } = createMigrationRunner(config);
+    let client: PoolClient | undefined;
+
+    try {
+        client = await pool.connect();
+        const holder = await getLockHolder(client, lockId);
+
+        if (action === 'status') {
+            if (parsed.json) {
+                printJson({ lockId, held: holder !== null, holder });
+                return;
+            }
+            if (!holder) {
+                console.log(color.green(`Advisory lock ${lockId} is free.`));
+                return;
+            }
+            console.log(color.yellow(`Advisory lock ${lockId} is held by:`));
+            printLockHolder(holder);
+            return;
+        }
+
+        // release
+        if (!holder) {
+            if (parsed.json) {
+                printJson({ lockId, holder: null, terminated: false });
+            } else {
+                console.log(color.green(`Advisory lock ${lockId} is free. Nothing to release.`));
+            }
+            return;
+        }
+
+        if (!parsed.yes) {
+            if (parsed.json || !process.stdin.isTTY) {
+                usageError(
+                    parsed,
+                    'lock release requires confirmation. Re-run with --yes to proceed.'
+                );
+            }
+            console.log(color.yellow(`Advisory lock ${lockId} is held by:`));
+            printLockHolder(holder);
+            const question = `Terminate backend ${holder.pid}? Any open transaction in it will be rolled back.`;
+            if (!(await confirm(color.yellow(question)))) {
+                console.log(color.yellow('Lock release cancelled.'));
+                process.exitCode = 1;
+                return;
+            }
+        }
+
+        const result = await forceReleaseLock(client, lockId, undefined, {
+            expectedPid: holder.pid
+        });
+
+        if (parsed.json) {
+            printJson({ lockId, ...result });
+        } else if (result.terminated) {
+            console.log(color.greenBold(`Terminated backend ${result.holder!.pid}.`));
+        } else if (result.holderChanged) {
             console.error(
-                color.gray('Wait for it to finish or manually release the advisory lock.')
+                color.red(
+                    `Advisory lock ${lockId} is no longer held by backend ${holder.pid}. ` +
+                        'Nothing was terminated; re-run to review the current holder.'
+                )
             );
+        } else if (result.holder) {
+            console.error(color.red(`Could not terminate backend ${result.holder.pid}.`));
+        } else {
+            console.log(color.green(`Advisory lock ${lockId} was released in the meantime.`));
+        }
+        if (result.holder && !result.terminated) process.exitCode = 1;
+    } finally {
+        client?.release();
+        await pool.end();
+    }
+}
+
+async function cmdWait(parsed: ParsedArgs): Promise<void> {
+    const config = buildConfig(parsed);
+    const { runner, pool } = createMigrationRunner(config);
+
+    try {
+        if (!parsed.json) console.log(color.cyan('Waiting for migrations...'));
+
+        await runner.waitUntilUpToDate({ timeoutMs: parsed.timeout, pollMs: parsed.poll });
+
+        if (parsed.json) {
+            printJson({ upToDate: true });
+            return;
+        }
+        console.log(color.green('Database is up to date.'));
+    } catch (error: any) {
+        if (parsed.json) throw error;
+        if (error instanceof MigrationWaitTimeoutError) {
+            console.error(color.red(error.message));
             process.exitCode = 1;
             return;
         }
@@ -340,9 +1134,136 @@ async function cmdRollback(parsed: ParsedArgs): Promise<void> {
     }
 }
 
+async function cmdSeed(parsed: ParsedArgs): Promise<void> {
+    const config = buildConfig(parsed);
+    const { runner, pool } = createMigrationRunner(config);
+
+    try {
+        if (parsed.json) {
+            const summary = await runner.seed({ dryRun: parsed.dryRun });
+            printJson(summary);
+            if (summary.failed) process.exitCode = 1;
+            return;
+        }
+
+        if (parsed.dryRun) {
+            console.log(color.cyan('Dry run — previewing seeds...'));
+        } else {
+            console.log(color.cyan('Running seeds...'));
+        }
+
+        const summary = await runner.seed({ dryRun: parsed.dryRun });
+
+        if (summary.total_applied === 0 && !summary.failed) {
+            console.log(color.green('No seeds to run.'));
+            return;
+        }
+
+        const prefix = parsed.dryRun ? 'Would seed' : 'Seeded';
+        for (const result of summary.applied) {
+            const timeStr = parsed.dryRun ? '' : color.gray(` (${result.execution_time_ms}ms)`);
+            console.log(color.green(`  ${prefix}: ${result.name}`) + timeStr);
+        }
+
+        if (summary.failed) {
+            console.error(color.red(`  Failed: ${summary.failed.name}`));
+            console.error(color.red(`    Error: ${summary.failed.error}`));
+            process.exitCode = 1;
+            return;
+        }
+
+        if (parsed.dryRun) {
+            console.log(
+                color.cyan(`\nDry run complete: ${summary.total_applied} seed(s) would run.`)
+            );
+        } else {
+            console.log(color.greenBold(`\nRan ${summary.total_applied} seed(s) successfully.`));
+        }
+    } catch (error: any) {
+        if (parsed.json) throw error;
+        if (error instanceof MigrationLockError) {
+            printLockError(error);
+            process.exitCode = 1;
+            return;
+        }
+        throw error;
+    } finally {
+        await pool.end();
+    }
+}
+
+function cmdLint(parsed: ParsedArgs): void {
+    // Lint works on files only — no runner, no Pool
+    let files = parsed.rest;
+    if (files.length === 0) {
+        // Only migrationsDir is needed, so an unset connectionStringEnv is no reason to fail
+        const config = buildConfig(parsed, { resolveConnection: false });
+        const source = new FilesystemMigrationSource(
+            config.migrationsDir || path.join(process.cwd(), 'models', 'migrations'),
+            { recursive: config.recursive }
+        );
+        files = source
+            .listFiles()
+            .filter((f) => f.endsWith('.sql'))
+            .sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+    }
+
+    const results: { file: string; findings: ValidationWarning[] }[] = files.map((file) => ({
+        file,
+        findings: fs.existsSync(file)
+            ? validateMigrationFile(path.basename(file), fs.readFileSync(file, 'utf-8'))
+            : [{ level: 'error', message: `File not found: ${file}` }]
+    }));
+
+    const all = results.flatMap((r) => r.findings);
+    const errorCount = all.filter((f) => f.level === 'error').length;
+    const warningCount = all.length - errorCount;
+    const tooManyWarnings = parsed.maxWarnings !== undefined && warningCount > parsed.maxWarnings;
+
+    if (errorCount > 0 || tooManyWarnings) {
+        process.exitCode = 1;
+    }
+
+    if (parsed.json) {
+        printJson(results);
+        return;
+    }
+
+    if (files.length === 0) {
+        console.log(color.yellow('No migration files found.'));
+        return;
+    }
+
+    for (const { file, findings } of results) {
+        if (findings.length === 0) continue;
+
+        console.log(`\n${color.bold(file)}`);
+        for (const f of findings) {
+            const line = (f.line !== undefined ? String(f.line) : '-').padStart(5);
+            const level = f.level === 'error' ? color.red('error  ') : color.yellow('warning');
+            console.log(`  ${color.gray(line)}  ${level}  ${f.message}`);
+        }
+    }
+
+    const total = `${errorCount} error(s), ${warningCount} warning(s) in ${files.length} file(s)`;
+
+    if (errorCount > 0 || tooManyWarnings) {
+        console.error(color.red(`\n${total}`));
+        if (errorCount === 0) {
+            console.error(color.red(`Too many warnings (maximum allowed: ${parsed.maxWarnings}).`));
+        }
+        return;
+    }
+
+    console.log(color.green(`\n${total}`));
+}
+
 function cmdCreate(parsed: ParsedArgs): void {
     const name = parsed.rest.join('_');
     if (!name) {
+        if (parsed.json) {
+            usageError(parsed, 'Please provide a migration name.');
+        }
         console.error(color.red('Please provide a migration name.'));
         console.log(color.gray('  Example: pg-migrate-runner create add_users_table'));
         process.exitCode = 1;
@@ -354,12 +1275,20 @@ function cmdCreate(parsed: ParsedArgs): void {
 
     try {
         const result = runner.createMigrationFile(name);
+        if (parsed.json) {
+            printJson(result);
+            return;
+        }
         console.log(color.greenBold('\nCreated migration file:'));
         console.log(color.cyan(`  ${result.filename}`));
         console.log(color.gray(`  ${result.filepath}`));
         console.log(`\nEdit the file, then run ${color.bold('pg-migrate-runner up')} to apply.\n`);
     } catch (error: any) {
-        console.error(color.red(error.message));
+        if (parsed.json) {
+            printJson(errorToJson(error));
+        } else {
+            console.error(color.red(error.message));
+        }
         process.exitCode = 1;
     } finally {
         pool.end();
@@ -368,9 +1297,7 @@ function cmdCreate(parsed: ParsedArgs): void {
 
 // ─── Main ────────────────────────────────────────────────────────────────────
 
-async function main(): Promise<void> {
-    const parsed = parseArgs(process.argv);
-
+async function main(parsed: ParsedArgs): Promise<void> {
     if (!parsed.command) {
         parsed.command = 'up';
     }
@@ -392,14 +1319,46 @@ async function main(): Promise<void> {
             cmdCreate(parsed);
             break;
 
+        case 'verify':
+            await cmdVerify(parsed);
+            break;
+
+        case 'repair':
+            await cmdRepair(parsed);
+            break;
+
+        case 'resolve':
+            await cmdResolve(parsed);
+            break;
+
+        case 'lint':
+            cmdLint(parsed);
+            break;
+
+        case 'lock':
+            await cmdLock(parsed);
+            break;
+
+        case 'wait':
+            await cmdWait(parsed);
+            break;
+
+        case 'seed':
+            await cmdSeed(parsed);
+            break;
+
         default:
-            console.error(color.red(`Unknown command: ${parsed.command}`));
-            printHelp();
-            process.exitCode = 1;
+            usageError(parsed, `Unknown command: ${parsed.command}`, true);
     }
 }
 
-main().catch((error) => {
-    console.error(color.red(`Migration error: ${error.message}`));
+const parsedArgs = parseArgs(process.argv);
+
+main(parsedArgs).catch((error) => {
+    if (parsedArgs.json) {
+        printJson(errorToJson(error));
+    } else {
+        console.error(color.red(`Migration error: ${error.message}`));
+    }
     process.exitCode = 1;
 });
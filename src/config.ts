@@ -0,0 +1,243 @@
+/**
+ * pg-migrate-runner — Config File Loading
+ *
+ * Discovers and loads a configuration file so CLI runs don't have to repeat
+ * `--dir`, `--table`, etc. Looked up in the working directory, in order:
+ *   - pg-migrate-runner.config.json
+ *   - pg-migrate-runner.config.js
+ *   - pg-migrate-runner.config.cjs
+ *   - the "pgMigrateRunner" key in package.json
+ *
+ * Values from the file override environment variables; CLI flags override the file.
+ * A config may define named profiles under `environments`, selected with `environment`
+ * (or `--env` on the CLI).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { MigrationConfig, MigrationProfile } from './types';
+import { MigrationConfigError } from './errors';
+
+/** Config filenames searched for in the working directory, in order of precedence. */
+export const CONFIG_FILENAMES = [
+    'pg-migrate-runner.config.json',
+    'pg-migrate-runner.config.js',
+    'pg-migrate-runner.config.cjs'
+];
+
+/** Key in package.json that holds the config when no config file exists. */
+export const PACKAGE_JSON_CONFIG_KEY = 'pgMigrateRunner';
+
+/** Settings that select the database. A profile setting any of them replaces all of them. */
+const CONNECTION_KEYS = [
+    'connectionString',
+    'connectionStringEnv',
+    'host',
+    'port',
+    'database',
+    'user',
+    'password'
+] as const;
+
+/**
+ * Options for loadConfigFile().
+ */
+export interface LoadConfigOptions {
+    /** Directory to search in (default: process.cwd()). */
+    cwd?: string;
+
+    /** Explicit config file path (e.g. from `--config`). Disables discovery; must exist. */
+    configPath?: string;
+}
+
+/**
+ * Options for resolveEnvironment().
+ */
+export interface ResolveEnvironmentOptions {
+    /**
+     * Resolve `connectionStringEnv` into `connectionString` (default: true). Turn this off
+     * for work that never connects, so an unset connection variable doesn't stop it.
+     */
+    resolveConnection?: boolean;
+}
+
+/**
+ * Result of loadConfigFile().
+ */
+export interface LoadedConfig {
+    /** The loaded config (empty if no config file was found). */
+    config: Partial<MigrationConfig>;
+
+    /** Absolute path of the file the config came from, or null if none was found. */
+    filepath: string | null;
+}
+
+/**
+ * Find and load the migration runner config file.
+ *
+ * A relative `migrationsDir` or `seedsDir` in the file is resolved against the file's directory,
+ * so the config works regardless of where the CLI is run from.
+ *
+ * @param options - Optional search directory or explicit config path.
+ * @returns The loaded config and where it came from.
+ * @throws MigrationConfigError if an explicit path does not exist, or a file cannot be read.
+ */
+export function loadConfigFile(options?: LoadConfigOptions): LoadedConfig {
+    const cwd = options?.cwd || process.cwd();
+
+    if (options?.configPath) {
+        const filepath = path.resolve(cwd, options.configPath);
+        if (!fs.existsSync(filepath)) {
+            throw new MigrationConfigError(`Config file not found: ${filepath}`, filepath);
+        }
+        return { config: readConfigFile(filepath), filepath };
+    }
+
+    for (const filename of CONFIG_FILENAMES) {
+        const filepath = path.join(cwd, filename);
+        if (fs.existsSync(filepath)) {
+            return { config: readConfigFile(filepath), filepath };
+        }
+    }
+
+    const packageJsonPath = path.join(cwd, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+        const pkg = parseJson(packageJsonPath);
+        if (pkg[PACKAGE_JSON_CONFIG_KEY] !== undefined) {
+            return {
+                config: normalizeConfig(pkg[PACKAGE_JSON_CONFIG_KEY], packageJsonPath),
+                filepath: packageJsonPath
+            };
+        }
+    }
+
+    return { config: {}, filepath: null };
+}
+
+/**
+ * Apply the profile named by `config.environment` and resolve `connectionStringEnv`.
+ *
+ * The result has no `environments` / `environment` keys, so resolving it again is a no-op.
+ *
+ * @param config - Config that may contain `environments` and `environment`.
+ * @param options - Optional `resolveConnection: false` to leave `connectionStringEnv` as is.
+ * @returns The flattened config.
+ * @throws MigrationConfigError if the environment is unknown, or `connectionStringEnv`
+ *         names a variable that is not set.
+ */
+export function resolveEnvironment(
+    config: Partial<MigrationConfig>,
+    options?: ResolveEnvironmentOptions
+): Partial<MigrationConfig> {
+    const { environments, environment, ...base } = config;
+    let resolved: Partial<MigrationConfig> = base;
+
+    if (environment) {
+        const profile: MigrationProfile | undefined = environments?.[environment];
+        if (!profile) {
+            const available = Object.keys(environments || {});
+            throw new MigrationConfigError(
+                `Unknown environment '${environment}'. ` +
+                    (available.length > 0
+                        ? `Available environments: ${available.join(', ')}.`
+                        : 'No environments are configured.')
+            );
+        }
+
+        // Never mix connection settings: a prod profile must not inherit a dev connection string
+        const profileSetsConnection = CONNECTION_KEYS.some((key) => profile[key] !== undefined);
+        if (profileSetsConnection) {
+            resolved = { ...base };
+            for (const key of CONNECTION_KEYS) delete resolved[key];
+        }
+        resolved = { ...resolved, ...profile };
+
+        // A profile's variables add to (and override) the shared ones rather than replacing them
+        if (base.variables && profile.variables) {
+            resolved.variables = { ...base.variables, ...profile.variables };
+        }
+    }
+
+    if (resolved.connectionStringEnv && options?.resolveConnection !== false) {
+        const { connectionStringEnv, ...rest } = resolved;
+        const value = process.env[connectionStringEnv];
+        if (!value) {
+            throw new MigrationConfigError(
+                `Environment variable ${connectionStringEnv} is not set` +
+                    (environment ? ` (required by environment '${environment}').` : '.')
+            );
+        }
+        resolved = { ...rest, connectionString: value };
+    }
+
+    return resolved;
+}
+
+// ─── Internals ───────────────────────────────────────────────────────────────
+
+function readConfigFile(filepath: string): Partial<MigrationConfig> {
+    const ext = path.extname(filepath);
+
+    if (ext === '.json') {
+        return normalizeConfig(parseJson(filepath), filepath);
+    }
+
+    if (ext === '.js' || ext === '.cjs') {
+        let loaded: any;
+        try {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            loaded = require(filepath);
+        } catch (error: any) {
+            throw new MigrationConfigError(
+                `Failed to load config file ${filepath}: ${error.message}`,
+                filepath
+            );
+        }
+        // Support both `module.exports = {...}` and transpiled `export default {...}`
+        return normalizeConfig(loaded?.__esModule ? loaded.default : loaded, filepath);
+    }
+
+    throw new MigrationConfigError(
+        `Unsupported config file type '${ext}' (expected .json, .js or .cjs): ${filepath}`,
+        filepath
+    );
+}
+
+function parseJson(filepath: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+    } catch (error: any) {
+        throw new MigrationConfigError(
+            `Failed to parse config file ${filepath}: ${error.message}`,
+            filepath
+        );
+    }
+}
+
+function normalizeConfig(value: unknown, filepath: string): Partial<MigrationConfig> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new MigrationConfigError(`Config in ${filepath} must be an object.`, filepath);
+    }
+
+    const config = resolveDirectories({ ...(value as Partial<MigrationConfig>) }, filepath);
+    if (config.environments) {
+        config.environments = Object.fromEntries(
+            Object.entries(config.environments).map(([name, profile]) => [
+                name,
+                resolveDirectories({ ...profile }, filepath)
+            ])
+        );
+    }
+    return config;
+}
+
+function resolveDirectories<T extends MigrationProfile>(config: T, filepath: string): T {
+    const base = path.dirname(filepath);
+    const resolve = (dirs: string | string[]) =>
+        Array.isArray(dirs) ? dirs.map((dir) => path.resolve(base, dir)) : path.resolve(base, dirs);
+
+    if (config.migrationsDir) config.migrationsDir = resolve(config.migrationsDir);
+    if (config.seedsDir) config.seedsDir = resolve(config.seedsDir);
+    return config;
+}
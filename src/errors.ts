@@ -5,6 +5,9 @@
  * different failure modes (lock contention, checksum mismatch, parse errors, etc.).
  */
 
+import { ChecksumMismatch, LockHolder, MigrationHooks, MigrationValidationFinding } from './types';
+import { describeLockHolder } from './helpers';
+
 // ─── Base Error ──────────────────────────────────────────────────────────────
 
 /**
@@ -33,6 +36,9 @@ export class MigrationError extends Error {
 /**
  * Thrown when a migration file's checksum doesn't match the recorded checksum.
  * Indicates the migration file was modified after being applied.
+ *
+ * When several files drifted, `migration`/`expected`/`actual` describe the first one
+ * and `mismatches` lists all of them.
  */
 export class ChecksumMismatchError extends MigrationError {
     /** The checksum stored in the database. */
@@ -41,17 +47,40 @@ export class ChecksumMismatchError extends MigrationError {
     /** The checksum computed from the current file. */
     public readonly actual: string;
 
-    constructor(migration: string, migrationName: string, expected: string, actual: string) {
+    /** Every drifted migration (at least the one described by the other fields). */
+    public readonly mismatches: ChecksumMismatch[];
+
+    constructor(
+        migration: string,
+        migrationName: string,
+        expected: string,
+        actual: string,
+        mismatches?: ChecksumMismatch[]
+    ) {
+        const all = mismatches?.length
+            ? mismatches
+            : [{ version: migration, name: migrationName, expected, actual }];
+
         super(
-            `Checksum mismatch for migration ${migration}_${migrationName}. ` +
-                `Expected: ${expected}, Actual: ${actual}. ` +
-                `The migration file was modified after it was applied.`,
+            all.length === 1
+                ? `Checksum mismatch for migration ${migration}_${migrationName}. ` +
+                      `Expected: ${expected}, Actual: ${actual}. ` +
+                      `The migration file was modified after it was applied.`
+                : `Checksum mismatch for ${all.length} migrations: ` +
+                      all
+                          .map(
+                              (m) =>
+                                  `${m.version}_${m.name} (expected ${m.expected}, actual ${m.actual})`
+                          )
+                          .join(', ') +
+                      `. The migration files were modified after they were applied.`,
             migration,
             migrationName
         );
         this.name = 'ChecksumMismatchError';
         this.expected = expected;
         this.actual = actual;
+        this.mismatches = all;
 
         Object.setPrototypeOf(this, new.target.prototype);
     }
@@ -64,14 +93,27 @@ export class MigrationLockError extends MigrationError {
     /** The lock ID that was attempted. */
     public readonly lockId: number;
 
-    constructor(lockId: number) {
+    /** How long the runner waited before giving up (`lockStrategy: 'wait'` only). */
+    public readonly timeoutMs?: number;
+
+    /** The session holding the lock, if it could be determined. */
+    public readonly holder?: LockHolder;
+
+    constructor(lockId: number, details?: { timeoutMs?: number; holder?: LockHolder | null }) {
+        const waited =
+            details?.timeoutMs !== undefined ? ` after waiting ${details.timeoutMs}ms` : '';
+        const holder = details?.holder
+            ? `Held by ${describeLockHolder(details.holder)}. `
+            : `Another migration may be in progress. `;
         super(
-            `Could not acquire migration lock (lock ID: ${lockId}). ` +
-                `Another migration may be in progress. ` +
+            `Could not acquire migration lock (lock ID: ${lockId})${waited}. ` +
+                holder +
                 `If no other migration is running, the lock may need manual release.`
         );
         this.name = 'MigrationLockError';
         this.lockId = lockId;
+        this.timeoutMs = details?.timeoutMs;
+        this.holder = details?.holder ?? undefined;
 
         Object.setPrototypeOf(this, new.target.prototype);
     }
@@ -93,6 +135,23 @@ export class MigrationParseError extends MigrationError {
     }
 }
 
+/**
+ * Thrown when two migration files share a version, e.g. in different migration directories.
+ * Versions identify migrations in the tracking table, so they must be unique.
+ */
+export class MigrationDuplicateVersionError extends MigrationError {
+    /** The paths of the conflicting files. */
+    public readonly paths: string[];
+
+    constructor(version: string, paths: string[]) {
+        super(`Duplicate migration version ${version}: ${paths.join(' and ')}.`, version);
+        this.name = 'MigrationDuplicateVersionError';
+        this.paths = paths;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
 /**
  * Thrown when a rollback is attempted but the migration has no DOWN section.
  */
@@ -109,6 +168,61 @@ export class MigrationRollbackError extends MigrationError {
     }
 }
 
+/**
+ * Thrown by migrate() and rollback() while a migration is recorded as failed ("dirty"):
+ * a non-transactional migration failed partway through, so the database may be half-changed.
+ * Fix the database by hand, then mark the migration with `runner.resolve()`.
+ */
+export class MigrationDirtyError extends MigrationError {
+    /** The error recorded when the migration failed. */
+    public readonly error: string | null;
+
+    constructor(migration: string, migrationName: string, error: string | null) {
+        super(
+            `Migration ${migration}_${migrationName} is marked as failed` +
+                (error ? ` (${error})` : '') +
+                '. It may have been partially applied. Fix the database manually, then resolve it ' +
+                `as applied or pending (CLI: resolve ${migration} --as applied|pending).`,
+            migration,
+            migrationName
+        );
+        this.name = 'MigrationDirtyError';
+        this.error = error;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Thrown by waitUntilUpToDate() when migrations are still pending (or the migration
+ * lock is still held) after the timeout.
+ */
+export class MigrationWaitTimeoutError extends MigrationError {
+    /** Versions still pending when the wait gave up. */
+    public readonly pending: string[];
+
+    /** How long waitUntilUpToDate() waited. */
+    public readonly timeoutMs: number;
+
+    /** The session still holding the migration lock, if any. */
+    public readonly holder?: LockHolder;
+
+    constructor(timeoutMs: number, pending: string[], holder?: LockHolder | null) {
+        const remaining =
+            pending.length > 0
+                ? `${pending.length} migration(s) still pending: ${pending.join(', ')}.`
+                : 'No migrations are pending, but the migration lock is still held.';
+        const held = holder ? ` Lock held by ${describeLockHolder(holder)}.` : '';
+        super(`Timed out after ${timeoutMs}ms waiting for migrations. ${remaining}${held}`);
+        this.name = 'MigrationWaitTimeoutError';
+        this.pending = pending;
+        this.timeoutMs = timeoutMs;
+        this.holder = holder ?? undefined;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
 /**
  * Thrown when a migration file is not found on disk but exists in the database.
  */
@@ -125,3 +239,74 @@ export class MigrationFileNotFoundError extends MigrationError {
         Object.setPrototypeOf(this, new.target.prototype);
     }
 }
+
+/**
+ * Thrown when migrate() runs with `validate: 'error'` and pending migrations
+ * have error-level validation findings. Nothing is applied.
+ */
+export class MigrationValidationError extends MigrationError {
+    /** The error-level findings that blocked the run. */
+    public readonly findings: MigrationValidationFinding[];
+
+    constructor(findings: MigrationValidationFinding[]) {
+        super(
+            `SQL validation failed with ${findings.length} error(s):\n` +
+                findings
+                    .map(
+                        (f) =>
+                            `  ${f.filename}${f.line !== undefined ? `:${f.line}` : ''} — ${f.message}`
+                    )
+                    .join('\n')
+        );
+        this.name = 'MigrationValidationError';
+        this.findings = findings;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Thrown when a lifecycle hook fails. For `beforeEach` / `afterEach` it becomes the
+ * migration's failure in `summary.failed`; for `beforeAll` / `afterAll` migrate() throws it.
+ */
+export class MigrationHookError extends MigrationError {
+    /** The hook that failed. */
+    public readonly hook: keyof MigrationHooks;
+
+    /** The error the hook threw. */
+    public readonly cause: unknown;
+
+    constructor(
+        hook: keyof MigrationHooks,
+        cause: unknown,
+        migration?: string,
+        migrationName?: string
+    ) {
+        super(
+            `${hook} hook failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+            migration,
+            migrationName
+        );
+        this.name = 'MigrationHookError';
+        this.hook = hook;
+        this.cause = cause;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Thrown when a configuration file cannot be found, read or parsed.
+ */
+export class MigrationConfigError extends MigrationError {
+    /** The config file involved, if applicable. */
+    public readonly filepath?: string;
+
+    constructor(message: string, filepath?: string) {
+        super(message);
+        this.name = 'MigrationConfigError';
+        this.filepath = filepath;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * pg-migrate-runner — Typed Events
+ *
+ * A minimal typed event emitter behind `runner.on()` / `off()` / `once()`, so progress UIs
+ * and telemetry get structured data instead of parsing log lines.
+ */
+
+import {
+    MigrationEventListener,
+    MigrationEventName,
+    MigrationEvents,
+    MigrationLogger
+} from './types';
+
+// ─── Event Emitter ───────────────────────────────────────────────────────────
+
+/**
+ * Typed event emitter used by MigrationRunner.
+ *
+ * Listeners are called synchronously, in the order they were added. A listener that
+ * throws is logged and skipped — observing a run must never break it.
+ */
+export class MigrationEventEmitter {
+    private listeners = new Map<MigrationEventName, Set<MigrationEventListener<any>>>();
+    private logger?: MigrationLogger;
+
+    constructor(logger?: MigrationLogger) {
+        this.logger = logger;
+    }
+
+    /**
+     * Add a listener for `event`.
+     */
+    on<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener);
+        return this;
+    }
+
+    /**
+     * Add a listener that is removed after its first call.
+     */
+    once<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        const wrapper: MigrationEventListener<E> = (payload) => {
+            this.off(event, wrapper);
+            listener(payload);
+        };
+        return this.on(event, wrapper);
+    }
+
+    /**
+     * Remove a listener added with on().
+     */
+    off<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        this.listeners.get(event)?.delete(listener);
+        return this;
+    }
+
+    /**
+     * Call every listener for `event` with `payload`.
+     */
+    emit<E extends MigrationEventName>(event: E, payload: MigrationEvents[E]): void {
+        const set = this.listeners.get(event);
+        if (!set) return;
+
+        for (const listener of [...set]) {
+            try {
+                listener(payload);
+            } catch (error: any) {
+                this.logger?.warn(`Listener for '${event}' threw: ${error?.message ?? error}`);
+            }
+        }
+    }
+}
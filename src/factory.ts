@@ -15,27 +15,38 @@ import path from 'path';
 
 import { MigrationConfig } from './types';
 import { MigrationRunner } from './runner';
+import { resolveEnvironment } from './config';
 
 /**
  * Create a MigrationRunner with a fresh Pool using environment variables.
  * Caller is responsible for closing the pool when done.
  *
+ * If `config.environment` is set, the matching profile from `config.environments` is applied first.
+ *
  * @param configOrDir - A MigrationConfig for overrides, or a string path (legacy).
  * @returns An object with `runner` and `pool` (caller must call `pool.end()`).
+ * @throws MigrationConfigError if the environment is unknown or its connection env var is unset.
  */
 export function createMigrationRunner(configOrDir?: string | Partial<MigrationConfig>): {
     runner: MigrationRunner;
     pool: Pool;
 } {
-    // Normalize input: string → { migrationsDir: string }
-    const config: Partial<MigrationConfig> =
-        typeof configOrDir === 'string' ? { migrationsDir: configOrDir } : configOrDir || {};
+    // Normalize input: string → { migrationsDir: string }, then apply the selected profile
+    const config: Partial<MigrationConfig> = resolveEnvironment(
+        typeof configOrDir === 'string' ? { migrationsDir: configOrDir } : configOrDir || {}
+    );
 
     const isProduction = process.env.NODE_ENV === 'production';
 
+    // Explicit connection fields take precedence over a connection string from env vars
+    const hasExplicitFields = Boolean(
+        config.host || config.port || config.database || config.user || config.password
+    );
+
     // Detect connection string from env vars (multiple conventions)
     const connectionString =
-        config.connectionString || process.env.DATABASE_URL || process.env.POSTGRESQL_URL;
+        config.connectionString ||
+        (hasExplicitFields ? undefined : process.env.DATABASE_URL || process.env.POSTGRESQL_URL);
 
     // Detect if running inside Docker (common pattern: host = 'postgres')
     const host = config.host || process.env.POSTGRESQL_HOST || process.env.PG_HOST || 'localhost';
@@ -83,10 +94,20 @@ export function createMigrationRunner(configOrDir?: string | Partial<MigrationCo
     const runner = new MigrationRunner({
         pool,
         migrationsDir,
+        recursive: config.recursive,
+        seedsDir: config.seedsDir,
+        variables: config.variables,
         tableName: config.tableName,
         lockId: config.lockId,
         useLock: config.useLock,
-        logger: config.logger
+        lockStrategy: config.lockStrategy,
+        lockTimeoutMs: config.lockTimeoutMs,
+        lockPollIntervalMs: config.lockPollIntervalMs,
+        strictChecksums: config.strictChecksums,
+        validate: config.validate,
+        logger: config.logger,
+        hooks: config.hooks,
+        source: config.source
     });
 
     return { runner, pool };
@@ -7,6 +7,8 @@
 
 import crypto from 'crypto';
 
+import { LockHolder } from './types';
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 /** Default name for the migrations tracking table. */
@@ -15,15 +17,45 @@ export const DEFAULT_TABLE_NAME = 'schema_migrations';
 /** Default advisory lock ID for preventing concurrent migrations. */
 export const DEFAULT_LOCK_ID = 741953;
 
+/** Default time to wait for the advisory lock with `lockStrategy: 'wait'`. */
+export const DEFAULT_LOCK_TIMEOUT_MS = 60000;
+
+/** Default delay between advisory lock attempts with `lockStrategy: 'wait'`. */
+export const DEFAULT_LOCK_POLL_INTERVAL_MS = 1000;
+
+/** Default time waitUntilUpToDate() waits for pending migrations to be applied. */
+export const DEFAULT_WAIT_TIMEOUT_MS = 60000;
+
+/** Default delay between checks in waitUntilUpToDate(). */
+export const DEFAULT_WAIT_POLL_INTERVAL_MS = 1000;
+
 /** Regex to validate migration filenames: YYYYMMDDHHMMSS_snake_case_name.sql */
 export const MIGRATION_FILENAME_REGEX = /^(\d{14})_([a-z0-9_]+)\.sql$/;
 
+/** Regex to validate JS/TS migration module filenames: YYYYMMDDHHMMSS_snake_case_name.{js,ts,mjs} */
+export const MIGRATION_MODULE_FILENAME_REGEX = /^(\d{14})_([a-z0-9_]+)\.(js|ts|mjs)$/;
+
+/** Regex to validate repeatable migration filenames: R__snake_case_name.sql */
+export const REPEATABLE_FILENAME_REGEX = /^R__([a-z0-9_]+)\.sql$/;
+
+/**
+ * Prefix of a repeatable migration's version (`R__<name>`), which identifies it in the
+ * tracking table.
+ */
+export const REPEATABLE_VERSION_PREFIX = 'R__';
+
 /** Marker that starts the UP (apply) section of a migration file. */
 export const UP_MARKER = '-- migrate:up';
 
 /** Marker that starts the DOWN (rollback) section of a migration file. */
 export const DOWN_MARKER = '-- migrate:down';
 
+/** Header directive that makes the runner execute the file outside a transaction. */
+export const NO_TRANSACTION_DIRECTIVE = '-- migrate:no-transaction';
+
+/** Seed file directive that makes seed() run the file every time, not just once. */
+export const SEED_ALWAYS_DIRECTIVE = '-- seed:always';
+
 // ─── Functions ───────────────────────────────────────────────────────────────
 
 /**
@@ -41,10 +73,15 @@ export function computeChecksum(sql: string): string {
  * Parse a migration file into its UP and DOWN SQL sections.
  * Returns null if the file format is invalid (missing `-- migrate:up` marker).
  *
+ * `noTransaction` is true when the `-- migrate:no-transaction` directive appears on its
+ * own line in the header (before the first section marker).
+ *
  * @param content - The full content of the migration file.
- * @returns An object with `upSql` and `downSql` strings, or null if invalid.
+ * @returns An object with `upSql`, `downSql` and `noTransaction`, or null if invalid.
  */
-export function parseMigrationFile(content: string): { upSql: string; downSql: string } | null {
+export function parseMigrationFile(
+    content: string
+): { upSql: string; downSql: string; noTransaction: boolean } | null {
     const upIndex = content.indexOf(UP_MARKER);
     const downIndex = content.indexOf(DOWN_MARKER);
 
@@ -52,6 +89,11 @@ export function parseMigrationFile(content: string): { upSql: string; downSql: s
         return null;
     }
 
+    const header = content.substring(0, downIndex === -1 ? upIndex : Math.min(upIndex, downIndex));
+    const noTransaction = header
+        .split('\n')
+        .some((line) => line.trim().toLowerCase() === NO_TRANSACTION_DIRECTIVE);
+
     const upStart = upIndex + UP_MARKER.length;
 
     let upSql: string;
@@ -71,7 +113,192 @@ export function parseMigrationFile(content: string): { upSql: string; downSql: s
         upSql = content.substring(upStart).trim();
     }
 
-    return { upSql, downSql };
+    return { upSql, downSql, noTransaction };
+}
+
+/**
+ * Replace `${name}` placeholders in migration SQL with values from `variables`.
+ *
+ * Placeholders in `--` and `/* *\/` comments are left as they are; everywhere else, string
+ * literals, quoted identifiers and dollar-quoted bodies included, they are replaced.
+ * `$${name}` escapes a literal `${name}`.
+ *
+ * @param sql - The SQL of an UP or DOWN section.
+ * @param variables - Variable values by name.
+ * @returns The SQL with every defined placeholder replaced, and the names of undefined ones
+ *   (whose placeholders are left as they are).
+ */
+export function substituteVariables(
+    sql: string,
+    variables: Record<string, string>
+): { sql: string; undefinedVariables: string[] } {
+    const undefinedVariables = new Set<string>();
+    const resolve = (text: string) =>
+        text.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (placeholder, name: string) => {
+            if (placeholder.startsWith('$$')) {
+                return placeholder.substring(1); // `$${name}` escapes a literal `${name}`
+            }
+            if (Object.prototype.hasOwnProperty.call(variables, name)) {
+                return variables[name];
+            }
+            undefinedVariables.add(name);
+            return placeholder;
+        });
+
+    const resolved = scanSql(sql)
+        .map(({ kind, start, end }) => {
+            const text = sql.substring(start, end);
+            return kind === 'comment' ? text : resolve(text);
+        })
+        .join('');
+    return { sql: resolved, undefinedVariables: [...undefinedVariables] };
+}
+
+/**
+ * Parse a seed file: plain SQL, optionally marked with a `-- seed:always` line.
+ *
+ * @param content - The full content of the seed file.
+ * @returns The trimmed SQL and whether the seed runs every time.
+ */
+export function parseSeedFile(content: string): { sql: string; always: boolean } {
+    const always = content
+        .split('\n')
+        .some((line) => line.trim().toLowerCase() === SEED_ALWAYS_DIRECTIVE);
+    return { sql: content.trim(), always };
+}
+
+/**
+ * Split SQL into individual statements on top-level semicolons.
+ *
+ * Semicolons inside string literals, quoted identifiers, dollar-quoted bodies
+ * (`$$ ... $$`, `$tag$ ... $tag$`) and comments are ignored. Statements that contain
+ * nothing but comments and whitespace are dropped.
+ *
+ * @param sql - One or more SQL statements.
+ * @returns The trimmed statements, without their trailing semicolons.
+ */
+export function splitStatements(sql: string): string[] {
+    const statements: string[] = [];
+    let start = 0;
+    let hasCode = false;
+
+    const flush = (end: number) => {
+        const statement = sql.substring(start, end).trim();
+        if (hasCode && statement) statements.push(statement);
+        start = end + 1;
+        hasCode = false;
+    };
+
+    for (const segment of scanSql(sql)) {
+        if (segment.kind === 'comment') continue;
+        if (segment.kind === 'quoted') {
+            hasCode = true;
+            continue;
+        }
+        for (let i = segment.start; i < segment.end; i++) {
+            if (sql[i] === ';') {
+                flush(i);
+            } else if (!/\s/.test(sql[i])) {
+                hasCode = true;
+            }
+        }
+    }
+
+    flush(sql.length);
+    return statements;
+}
+
+/** A run of SQL: plain code, a comment, or a quoted region (string, identifier, dollar body). */
+interface SqlSegment {
+    kind: 'code' | 'comment' | 'quoted';
+    start: number;
+    end: number;
+}
+
+/**
+ * Cut SQL into code, comments and quoted regions, so callers can act on the code alone.
+ * A `$${name}` variable escape is code, not the start of a dollar-quoted body.
+ */
+function scanSql(sql: string): SqlSegment[] {
+    const segments: SqlSegment[] = [];
+    let codeStart = 0;
+    let i = 0;
+
+    const push = (kind: SqlSegment['kind'], start: number, end: number) => {
+        if (codeStart < start) segments.push({ kind: 'code', start: codeStart, end: start });
+        segments.push({ kind, start, end });
+        codeStart = end;
+    };
+
+    while (i < sql.length) {
+        const ch = sql[i];
+        const next = sql[i + 1];
+        const start = i;
+
+        if (ch === '-' && next === '-') {
+            // Line comment
+            const end = sql.indexOf('\n', i);
+            i = end === -1 ? sql.length : end + 1;
+            push('comment', start, i);
+        } else if (ch === '/' && next === '*') {
+            // Block comment (PostgreSQL allows nesting)
+            let depth = 1;
+            i += 2;
+            while (i < sql.length && depth > 0) {
+                if (sql[i] === '/' && sql[i + 1] === '*') {
+                    depth++;
+                    i += 2;
+                } else if (sql[i] === '*' && sql[i + 1] === '/') {
+                    depth--;
+                    i += 2;
+                } else {
+                    i++;
+                }
+            }
+            push('comment', start, i);
+        } else if (ch === "'" || ch === '"') {
+            // String literal or quoted identifier; doubled quotes are escapes,
+            // as are backslashes in E'...' strings
+            const backslashEscapes =
+                ch === "'" && /[eE]/.test(sql[i - 1] ?? '') && !isIdentChar(sql[i - 2]);
+            i++;
+            while (i < sql.length) {
+                if (backslashEscapes && sql[i] === '\\') {
+                    i += 2;
+                } else if (sql[i] === ch && sql[i + 1] === ch) {
+                    i += 2;
+                } else if (sql[i] === ch) {
+                    i++;
+                    break;
+                } else {
+                    i++;
+                }
+            }
+            push('quoted', start, Math.min(i, sql.length));
+        } else if (ch === '$' && /^\$\$\{[A-Za-z_][A-Za-z0-9_]*\}/.test(sql.substring(i))) {
+            // Escaped variable placeholder: stays code
+            i = sql.indexOf('}', i) + 1;
+        } else if (
+            ch === '$' &&
+            !isIdentChar(sql[i - 1]) &&
+            /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.test(sql.substring(i))
+        ) {
+            // Dollar-quoted body: skip to the matching closing tag
+            const tag = sql.substring(i).match(/^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/)![0];
+            const end = sql.indexOf(tag, i + tag.length);
+            i = end === -1 ? sql.length : end + tag.length;
+            push('quoted', start, i);
+        } else {
+            i++;
+        }
+    }
+
+    if (codeStart < sql.length) segments.push({ kind: 'code', start: codeStart, end: sql.length });
+    return segments;
+}
+
+function isIdentChar(ch: string | undefined): boolean {
+    return ch !== undefined && /[A-Za-z0-9_$]/.test(ch);
 }
 
 /**
@@ -87,6 +314,49 @@ export function parseFilename(filename: string): { version: string; name: string
     return { version: match[1], name: match[2] };
 }
 
+/**
+ * Like parseFilename(), for JS/TS migration modules (`.js`, `.ts`, `.mjs`).
+ *
+ * @param filename - The filename to parse (e.g. "20240101120000_backfill_slugs.ts").
+ * @returns An object with `version` and `name`, or null if invalid.
+ */
+export function parseModuleFilename(filename: string): { version: string; name: string } | null {
+    const match = filename.match(MIGRATION_MODULE_FILENAME_REGEX);
+    if (!match) return null;
+    return { version: match[1], name: match[2] };
+}
+
+/**
+ * Like parseFilename(), for repeatable migrations. Their version is `R__<name>`.
+ *
+ * @param filename - The filename to parse (e.g. "R__refresh_views.sql").
+ * @returns An object with `version` and `name`, or null if invalid.
+ */
+export function parseRepeatableFilename(
+    filename: string
+): { version: string; name: string } | null {
+    const match = filename.match(REPEATABLE_FILENAME_REGEX);
+    if (!match) return null;
+    return { version: `${REPEATABLE_VERSION_PREFIX}${match[1]}`, name: match[1] };
+}
+
+/**
+ * Whether a tracking-table version belongs to a repeatable migration.
+ */
+export function isRepeatableVersion(version: string): boolean {
+    return version.startsWith(REPEATABLE_VERSION_PREFIX);
+}
+
+/**
+ * Label a migration in messages: "20240101120000_create_users", or "R__refresh_views"
+ * for a repeatable migration.
+ */
+export function describeMigration(migration: { version: string; name: string }): string {
+    return isRepeatableVersion(migration.version)
+        ? migration.version
+        : `${migration.version}_${migration.name}`;
+}
+
 /**
  * Generate a timestamp-based version string (YYYYMMDDHHMMSS).
  *
@@ -114,3 +384,27 @@ export function sanitizeName(name: string): string {
         .replace(/^_+|_+$/g, '')
         .substring(0, 100);
 }
+
+/**
+ * Describe the session holding an advisory lock on one line,
+ * e.g. "pid 4242 (app@10.0.0.5, api-server, since 2024-01-15T14:30:00.000Z)".
+ *
+ * @param holder - The lock holder from getLockHolder().
+ * @returns A human-readable description.
+ */
+export function describeLockHolder(holder: LockHolder): string {
+    const who = [holder.user, holder.clientAddr].filter(Boolean).join('@');
+    const details = [
+        who,
+        holder.applicationName,
+        holder.backendStart && `since ${holder.backendStart}`
+    ].filter(Boolean);
+    return `pid ${holder.pid}` + (details.length > 0 ? ` (${details.join(', ')})` : '');
+}
+
+/**
+ * Resolve after `ms` milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
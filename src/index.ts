@@ -6,10 +6,13 @@
  *
  * Features:
  * - UP/DOWN migration files with transaction safety
+ * - Repeatable migrations for views, functions and triggers
+ * - Seed data with its own tracking table
  * - SHA-256 checksum verification
  * - Advisory locking for concurrent safety
  * - Dry-run mode
- * - Pluggable logger
+ * - Pluggable logger and migration sources
+ * - Lifecycle hooks and typed progress events
  * - SQL anti-pattern validation
  * - Config-driven or legacy Pool constructor
  * - CLI binary (`pg-migrate`)
@@ -36,17 +39,54 @@
 // --- Types ---
 export type {
     MigrationConfig,
+    MigrationProfile,
     MigrationLogger,
+    MigrationHooks,
     MigrateOptions,
     RollbackOptions,
+    RepairOptions,
+    ResolveOptions,
+    WaitOptions,
+    SeedOptions,
     MigrationRecord,
+    MigrationRecordStatus,
     MigrationFile,
+    MigrationModule,
+    MigrationSource,
+    MigrationDefinition,
     MigrationStatus,
     MigrationResult,
     MigrationRunSummary,
     MigrationRollbackSummary,
+    MigrationRepairSummary,
     MigrationSummary,
-    ValidationWarning
+    SeedFile,
+    SeedResult,
+    SeedRunSummary,
+    ChecksumMismatch,
+    ChecksumRepair,
+    ValidationMode,
+    LockStrategy,
+    AcquireLockOptions,
+    LockHolder,
+    ForceReleaseLockOptions,
+    ForceReleaseResult,
+    AtomicMode,
+    DryRunMode,
+    ValidationWarning,
+    ValidationOptions,
+    MigrationValidationFinding,
+    MigrationDirection,
+    MigrationEvents,
+    MigrationEventName,
+    MigrationEventListener,
+    LockAcquiredEvent,
+    LockReleasedEvent,
+    MigrationStartEvent,
+    MigrationSuccessEvent,
+    MigrationFailureEvent,
+    RollbackStartEvent,
+    RunCompleteEvent
 } from './types';
 
 // --- Errors ---
@@ -55,8 +95,14 @@ export {
     ChecksumMismatchError,
     MigrationLockError,
     MigrationParseError,
+    MigrationDuplicateVersionError,
     MigrationRollbackError,
-    MigrationFileNotFoundError
+    MigrationFileNotFoundError,
+    MigrationDirtyError,
+    MigrationWaitTimeoutError,
+    MigrationValidationError,
+    MigrationHookError,
+    MigrationConfigError
 } from './errors';
 
 // --- Logger ---
@@ -66,24 +112,56 @@ export { DefaultLogger, SilentLogger, createLogger } from './logger';
 export {
     DEFAULT_TABLE_NAME,
     DEFAULT_LOCK_ID,
+    DEFAULT_LOCK_TIMEOUT_MS,
+    DEFAULT_LOCK_POLL_INTERVAL_MS,
+    DEFAULT_WAIT_TIMEOUT_MS,
+    DEFAULT_WAIT_POLL_INTERVAL_MS,
     MIGRATION_FILENAME_REGEX,
+    MIGRATION_MODULE_FILENAME_REGEX,
+    REPEATABLE_FILENAME_REGEX,
+    REPEATABLE_VERSION_PREFIX,
     UP_MARKER,
     DOWN_MARKER,
+    NO_TRANSACTION_DIRECTIVE,
+    SEED_ALWAYS_DIRECTIVE,
     computeChecksum,
     parseMigrationFile,
+    parseSeedFile,
+    substituteVariables,
+    splitStatements,
     parseFilename,
+    parseModuleFilename,
+    parseRepeatableFilename,
+    isRepeatableVersion,
     generateVersion,
-    sanitizeName
+    sanitizeName,
+    describeLockHolder,
+    describeMigration
 } from './helpers';
 
 // --- Validator ---
-export { validateMigrationSQL } from './validator';
+export { validateMigrationSQL, validateMigrationFile } from './validator';
 
 // --- Lock ---
-export { acquireLock, releaseLock } from './lock';
+export { acquireLock, releaseLock, getLockHolder, forceReleaseLock } from './lock';
+
+// --- Sources ---
+export { FilesystemMigrationSource, GlobMigrationSource, MemoryMigrationSource } from './sources';
+
+// --- Events ---
+export { MigrationEventEmitter } from './events';
 
 // --- Runner ---
 export { MigrationRunner } from './runner';
 
 // --- Factory ---
 export { createMigrationRunner } from './factory';
+
+// --- Config File ---
+export {
+    CONFIG_FILENAMES,
+    PACKAGE_JSON_CONFIG_KEY,
+    loadConfigFile,
+    resolveEnvironment
+} from './config';
+export type { LoadConfigOptions, LoadedConfig, ResolveEnvironmentOptions } from './config';
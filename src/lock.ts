@@ -11,35 +11,123 @@
 
 import { PoolClient } from 'pg';
 import { MigrationLockError } from './errors';
-import { MigrationLogger } from './types';
-import { DEFAULT_LOCK_ID } from './helpers';
+import {
+    AcquireLockOptions,
+    ForceReleaseLockOptions,
+    ForceReleaseResult,
+    LockHolder,
+    MigrationLogger
+} from './types';
+import {
+    DEFAULT_LOCK_ID,
+    DEFAULT_LOCK_TIMEOUT_MS,
+    DEFAULT_LOCK_POLL_INTERVAL_MS,
+    describeLockHolder,
+    sleep
+} from './helpers';
 
 /**
  * Acquire a PostgreSQL advisory lock for migrations.
  *
- * Uses `pg_try_advisory_lock` (non-blocking) to immediately fail
- * if another migration process holds the lock.
+ * Uses `pg_try_advisory_lock` (non-blocking). With the default `'fail'` strategy it
+ * fails immediately if another migration process holds the lock. With `'wait'` it logs
+ * who holds the lock and retries every `pollIntervalMs` until `timeoutMs` runs out.
  *
  * @param client - A connected PoolClient to acquire the lock on.
  * @param lockId - The advisory lock ID (default: 741953).
  * @param logger - Logger for debug output.
- * @throws MigrationLockError if the lock cannot be acquired.
+ * @param options - Optional strategy, timeout and poll interval.
+ * @throws MigrationLockError if the lock cannot be acquired (in time).
  */
 export async function acquireLock(
     client: PoolClient,
     lockId: number = DEFAULT_LOCK_ID,
-    logger?: MigrationLogger
+    logger?: MigrationLogger,
+    options?: AcquireLockOptions
 ): Promise<void> {
+    const strategy = options?.strategy ?? 'fail';
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    const pollIntervalMs = options?.pollIntervalMs ?? DEFAULT_LOCK_POLL_INTERVAL_MS;
+
     logger?.debug(`Attempting to acquire advisory lock (ID: ${lockId})...`);
 
-    const result = await client.query('SELECT pg_try_advisory_lock($1) AS acquired', [lockId]);
-    const acquired = result.rows[0]?.acquired;
+    if (await tryLock(client, lockId)) {
+        logger?.debug(`Advisory lock acquired (ID: ${lockId}).`);
+        return;
+    }
 
-    if (!acquired) {
+    if (strategy === 'fail') {
         throw new MigrationLockError(lockId);
     }
 
-    logger?.debug(`Advisory lock acquired (ID: ${lockId}).`);
+    const deadline = Date.now() + timeoutMs;
+    let lastHolderPid: number | undefined;
+    let holder: LockHolder | null = null;
+
+    while (true) {
+        holder = await getLockHolder(client, lockId);
+
+        // Log once per holder rather than on every poll
+        if (holder && holder.pid !== lastHolderPid) {
+            logger?.info(
+                `Waiting for advisory lock (ID: ${lockId}) held by ${describeLockHolder(holder)}...`
+            );
+            lastHolderPid = holder.pid;
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+            throw new MigrationLockError(lockId, { timeoutMs, holder });
+        }
+
+        await sleep(Math.min(pollIntervalMs, remaining));
+
+        if (await tryLock(client, lockId)) {
+            logger?.debug(`Advisory lock acquired (ID: ${lockId}).`);
+            return;
+        }
+    }
+}
+
+/**
+ * Look up the session currently holding a migration advisory lock.
+ *
+ * A single-bigint advisory lock shows up in `pg_locks` with the key split across
+ * `classid` (high 32 bits) and `objid` (low 32 bits), and `objsubid = 1`.
+ *
+ * @param client - A connected PoolClient.
+ * @param lockId - The advisory lock ID (default: 741953).
+ * @returns The holder, or null if the lock is free (or held by a session we can't see).
+ */
+export async function getLockHolder(
+    client: PoolClient,
+    lockId: number = DEFAULT_LOCK_ID
+): Promise<LockHolder | null> {
+    const result = await client.query(
+        `SELECT a.pid, a.usename, a.application_name, a.client_addr::text AS client_addr,
+                a.backend_start, a.state, a.query
+         FROM pg_locks l
+         JOIN pg_stat_activity a ON a.pid = l.pid
+         WHERE l.locktype = 'advisory'
+           AND l.granted
+           AND ((l.classid::bigint << 32) | l.objid::bigint) = $1
+           AND l.objsubid = 1
+         LIMIT 1`,
+        [lockId]
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+        pid: row.pid,
+        user: row.usename ?? null,
+        applicationName: row.application_name || null,
+        clientAddr: row.client_addr ?? null,
+        backendStart: row.backend_start ? new Date(row.backend_start).toISOString() : null,
+        state: row.state ?? null,
+        query: row.query ?? null
+    };
 }
 
 /**
@@ -64,3 +152,74 @@ export async function releaseLock(
         logger?.warn(`Failed to release advisory lock (ID: ${lockId}): ${error.message}`);
     }
 }
+
+/**
+ * Forcibly release a migration advisory lock by terminating the backend that holds it.
+ *
+ * Meant for recovery after a migration process died without closing its connection.
+ * Terminating the backend ends its session, which releases the lock and rolls back any
+ * open transaction. Requires permission to signal that backend (superuser, the same role,
+ * or membership in `pg_signal_backend`).
+ *
+ * The backend is only terminated while it still holds the lock, so a session that took
+ * the lock in the meantime is never killed by mistake.
+ *
+ * @param client - A connected PoolClient (must not be the holder itself).
+ * @param lockId - The advisory lock ID (default: 741953).
+ * @param logger - Logger for output.
+ * @param options - Optional `expectedPid`: the only backend that may be terminated.
+ * @returns The holder (null if the lock was free), whether it was terminated, and whether
+ *   the lock had moved away from the expected backend.
+ */
+export async function forceReleaseLock(
+    client: PoolClient,
+    lockId: number = DEFAULT_LOCK_ID,
+    logger?: MigrationLogger,
+    options?: ForceReleaseLockOptions
+): Promise<ForceReleaseResult> {
+    const holder = await getLockHolder(client, lockId);
+    if (!holder) {
+        logger?.info(`Advisory lock (ID: ${lockId}) is not held — nothing to release.`);
+        return { holder: null, terminated: false, holderChanged: false };
+    }
+
+    const pid = options?.expectedPid ?? holder.pid;
+    if (holder.pid !== pid) {
+        logger?.warn(
+            `Advisory lock (ID: ${lockId}) is now held by ${describeLockHolder(holder)}, ` +
+                `not pid ${pid} — nothing terminated.`
+        );
+        return { holder, terminated: false, holderChanged: true };
+    }
+
+    logger?.warn(
+        `Terminating ${describeLockHolder(holder)} to release advisory lock (ID: ${lockId})`
+    );
+    // Re-check the holder in the same statement so the lock can't change hands in between
+    const result = await client.query(
+        `SELECT pg_terminate_backend(l.pid) AS terminated
+         FROM pg_locks l
+         WHERE l.locktype = 'advisory'
+           AND l.granted
+           AND ((l.classid::bigint << 32) | l.objid::bigint) = $1
+           AND l.objsubid = 1
+           AND l.pid = $2`,
+        [lockId, pid]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+        logger?.warn(
+            `Advisory lock (ID: ${lockId}) is no longer held by pid ${pid} — nothing terminated.`
+        );
+        return { holder, terminated: false, holderChanged: true };
+    }
+    return { holder, terminated: Boolean(row.terminated), holderChanged: false };
+}
+
+// ─── Internals ───────────────────────────────────────────────────────────────
+
+async function tryLock(client: PoolClient, lockId: number): Promise<boolean> {
+    const result = await client.query('SELECT pg_try_advisory_lock($1) AS acquired', [lockId]);
+    return Boolean(result.rows[0]?.acquired);
+}
@@ -5,13 +5,18 @@
  * and pluggable logging. Designed for reusability across projects.
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient, QueryResult } from 'pg';
 import fs from 'fs';
 import path from 'path';
+import { pathToFileURL } from 'url';
 
 import {
     MigrationConfig,
+    AcquireLockOptions,
     MigrationFile,
+    MigrationModule,
+    MigrationSource,
+    MigrationDirection,
     MigrationRecord,
     MigrationStatus,
     MigrationResult,
@@ -19,33 +24,101 @@ import {
     MigrationRollbackSummary,
     MigrationSummary,
     MigrationLogger,
+    MigrationHooks,
     MigrateOptions,
-    RollbackOptions
+    AtomicMode,
+    RollbackOptions,
+    RepairOptions,
+    ResolveOptions,
+    WaitOptions,
+    SeedOptions,
+    SeedFile,
+    SeedRunSummary,
+    LockHolder,
+    ChecksumMismatch,
+    ChecksumRepair,
+    MigrationRepairSummary,
+    MigrationValidationFinding,
+    ValidationMode,
+    MigrationEventName,
+    MigrationEventListener
 } from './types';
 import {
     DEFAULT_TABLE_NAME,
     DEFAULT_LOCK_ID,
-    UP_MARKER,
+    DEFAULT_WAIT_TIMEOUT_MS,
+    DEFAULT_WAIT_POLL_INTERVAL_MS,
     DOWN_MARKER,
+    NO_TRANSACTION_DIRECTIVE,
+    SEED_ALWAYS_DIRECTIVE,
     computeChecksum,
-    parseMigrationFile,
-    parseFilename,
+    parseSeedFile,
+    splitStatements,
     generateVersion,
-    sanitizeName
+    sanitizeName,
+    describeLockHolder,
+    describeMigration,
+    isRepeatableVersion,
+    substituteVariables,
+    sleep
 } from './helpers';
-import { MigrationError, MigrationRollbackError, MigrationFileNotFoundError } from './errors';
-import { acquireLock, releaseLock } from './lock';
+import {
+    MigrationError,
+    ChecksumMismatchError,
+    MigrationRollbackError,
+    MigrationFileNotFoundError,
+    MigrationParseError,
+    MigrationValidationError,
+    MigrationDirtyError,
+    MigrationWaitTimeoutError,
+    MigrationHookError
+} from './errors';
+import { acquireLock, releaseLock, getLockHolder } from './lock';
+import { validateMigrationSQL } from './validator';
 import { createLogger } from './logger';
+import { MigrationEventEmitter } from './events';
+import { FilesystemMigrationSource } from './sources';
+
+// Hidden from the TypeScript compiler, which would turn import() into require() under CommonJS.
+// Needed to load `.mjs` migration modules.
+const importModule = new Function('specifier', 'return import(specifier)') as (
+    specifier: string
+) => Promise<any>;
+
+/** Rows affected by a query; a multi-statement query returns one result per statement. */
+function countRows(result: QueryResult | QueryResult[] | undefined): number {
+    return ([] as (QueryResult | undefined)[])
+        .concat(result)
+        .reduce((total, r) => total + (r?.rowCount ?? 0), 0);
+}
+
+/** `value` as a SQL string literal. */
+function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Whether `file` is a JS/TS migration (a module on disk or defined in memory). */
+function isModule(file: MigrationFile): boolean {
+    return Boolean(file.modulePath || file.module);
+}
 
 // ─── Migration Runner ───────────────────────────────────────────────────────
 
 export class MigrationRunner {
     private pool: Pool;
     private migrationsDir: string;
+    private source: MigrationSource;
+    private seedsDirs: string[];
+    private variables: Record<string, string>;
     private tableName: string;
     private lockId: number;
     private useLock: boolean;
+    private lockOptions: AcquireLockOptions;
+    private strictChecksums: boolean;
+    private validate: ValidationMode;
     private logger: MigrationLogger;
+    private hooks: MigrationHooks;
+    private events: MigrationEventEmitter;
 
     /**
      * Create a new MigrationRunner.
@@ -69,10 +142,18 @@ export class MigrationRunner {
             // Legacy constructor: MigrationRunner(pool, migrationsDir?)
             this.pool = configOrPool as Pool;
             this.migrationsDir = migrationsDir || path.join(process.cwd(), 'models', 'migrations');
+            this.source = new FilesystemMigrationSource(this.migrationsDir);
+            this.seedsDirs = [path.join(process.cwd(), 'models', 'seeds')];
+            this.variables = {};
             this.tableName = DEFAULT_TABLE_NAME;
             this.lockId = DEFAULT_LOCK_ID;
             this.useLock = false; // Legacy mode: no advisory locking (backward compat)
+            this.lockOptions = { strategy: 'fail' };
+            this.strictChecksums = false;
+            this.validate = 'off';
             this.logger = createLogger();
+            this.hooks = {};
+            this.events = new MigrationEventEmitter(this.logger);
         } else {
             // Config-driven constructor
             const config = configOrPool as MigrationConfig;
@@ -85,88 +166,148 @@ export class MigrationRunner {
                 );
             }
 
-            this.migrationsDir =
-                config.migrationsDir || path.join(process.cwd(), 'models', 'migrations');
+            const dirs = ([] as string[]).concat(config.migrationsDir || []);
+            this.migrationsDir = dirs[0] || path.join(process.cwd(), 'models', 'migrations');
+            this.source =
+                config.source ??
+                new FilesystemMigrationSource(dirs.length > 0 ? dirs : this.migrationsDir, {
+                    recursive: config.recursive
+                });
+            const seedsDirs = ([] as string[]).concat(config.seedsDir || []);
+            this.seedsDirs =
+                seedsDirs.length > 0 ? seedsDirs : [path.join(process.cwd(), 'models', 'seeds')];
+            this.variables = config.variables ?? {};
             this.tableName = config.tableName || DEFAULT_TABLE_NAME;
             this.lockId = config.lockId ?? DEFAULT_LOCK_ID;
             this.useLock = config.useLock ?? true; // Config mode: locking enabled by default
+            this.lockOptions = {
+                strategy: config.lockStrategy ?? 'fail',
+                timeoutMs: config.lockTimeoutMs,
+                pollIntervalMs: config.lockPollIntervalMs
+            };
+            this.strictChecksums = config.strictChecksums ?? Boolean(process.env.CI);
+            this.validate = config.validate ?? 'off';
             this.logger = createLogger(config.logger);
+            this.hooks = config.hooks ?? {};
+            this.events = new MigrationEventEmitter(this.logger);
         }
     }
 
-    // ─── Table Management ────────────────────────────────────────────────
+    // ─── Events ──────────────────────────────────────────────────────────
 
     /**
-     * Ensure the migrations tracking table exists.
+     * Subscribe to a runner event (`'migration:start'`, `'run:complete'`, ...).
+     * See {@link MigrationEvents} for the payload of each event.
+     *
+     * @param event - The event name.
+     * @param listener - Called synchronously with the event payload. Errors it throws are logged.
+     * @returns The runner, for chaining.
      */
-    async ensureMigrationsTable(): Promise<void> {
-        await this.pool.query(`
-            CREATE TABLE IF NOT EXISTS ${this.tableName} (
-                id SERIAL PRIMARY KEY,
-                version VARCHAR(14) NOT NULL UNIQUE,
-                name VARCHAR(255) NOT NULL,
-                applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
-                execution_time_ms INTEGER NOT NULL DEFAULT 0,
-                checksum VARCHAR(16) NOT NULL
-            );
-        `);
+    on<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        this.events.on(event, listener);
+        return this;
     }
 
-    // ─── File Reading ────────────────────────────────────────────────────
-
     /**
-     * Read all migration files from the migrations directory.
-     * Returns them sorted by version (timestamp) ascending.
+     * Subscribe to the next occurrence of a runner event only.
      */
-    readMigrationFiles(): MigrationFile[] {
-        if (!fs.existsSync(this.migrationsDir)) {
-            return [];
-        }
-
-        const files = fs.readdirSync(this.migrationsDir).filter((f) => f.endsWith('.sql'));
-        const migrations: MigrationFile[] = [];
+    once<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        this.events.once(event, listener);
+        return this;
+    }
 
-        for (const filename of files) {
-            const parsed = parseFilename(filename);
-            if (!parsed) continue; // Skip files that don't match the naming pattern
+    /**
+     * Remove a listener added with on().
+     */
+    off<E extends MigrationEventName>(event: E, listener: MigrationEventListener<E>): this {
+        this.events.off(event, listener);
+        return this;
+    }
 
-            const filePath = path.join(this.migrationsDir, filename);
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const sections = parseMigrationFile(content);
+    // ─── Table Management ────────────────────────────────────────────────
 
-            if (!sections) {
-                this.logger.warn(`Skipping ${filename}: missing '${UP_MARKER}' marker`);
-                continue;
-            }
+    /**
+     * Ensure the migrations tracking table exists.
+     * Tables created by older versions get the columns added since, and a `version` column
+     * wide enough for repeatable migrations (`R__<name>`).
+     */
+    async ensureMigrationsTable(): Promise<void> {
+        await this.pool.query(this.migrationsTableSql());
+    }
 
-            if (!sections.upSql) {
-                this.logger.warn(`Skipping ${filename}: empty UP section`);
-                continue;
-            }
+    /**
+     * The idempotent SQL that creates the tracking table, or upgrades one created by an
+     * older version. The catalog is checked first and DDL runs only when something is
+     * missing: DDL locks the table and needs its owner, which status reads and the polls
+     * of waitUntilUpToDate() must not.
+     */
+    private migrationsTableSql(): string {
+        const table = this.tableName;
+        const hasColumn = (column: string) =>
+            `EXISTS (SELECT 1 FROM pg_attribute WHERE attrelid = '${table}'::regclass ` +
+            `AND attname = '${column}' AND NOT attisdropped)`;
+
+        return [
+            'DO $$',
+            'BEGIN',
+            `    IF to_regclass('${table}') IS NULL THEN`,
+            `        CREATE TABLE IF NOT EXISTS ${table} (`,
+            '            id SERIAL PRIMARY KEY,',
+            '            version VARCHAR(255) NOT NULL UNIQUE,',
+            '            name VARCHAR(255) NOT NULL,',
+            '            applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),',
+            '            execution_time_ms INTEGER NOT NULL DEFAULT 0,',
+            '            checksum VARCHAR(16) NOT NULL,',
+            "            status VARCHAR(16) NOT NULL DEFAULT 'applied',",
+            '            error TEXT',
+            '        );',
+            '        RETURN;',
+            '    END IF;',
+            `    IF NOT ${hasColumn('status')} THEN`,
+            `        ALTER TABLE ${table}`,
+            "            ADD COLUMN IF NOT EXISTS status VARCHAR(16) NOT NULL DEFAULT 'applied';",
+            '    END IF;',
+            `    IF NOT ${hasColumn('error')} THEN`,
+            `        ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS error TEXT;`,
+            '    END IF;',
+            '    IF (SELECT format_type(atttypid, atttypmod) FROM pg_attribute',
+            `        WHERE attrelid = '${table}'::regclass AND attname = 'version')`,
+            "        = 'character varying(14)' THEN",
+            `        ALTER TABLE ${table} ALTER COLUMN version TYPE VARCHAR(255);`,
+            '    END IF;',
+            'END $$;'
+        ].join('\n');
+    }
 
-            migrations.push({
-                version: parsed.version,
-                name: parsed.name,
-                filename,
-                upSql: sections.upSql,
-                downSql: sections.downSql,
-                checksum: computeChecksum(sections.upSql)
-            });
-        }
+    // ─── File Reading ────────────────────────────────────────────────────
 
-        // Sort by version ascending
-        return migrations.sort((a, b) => a.version.localeCompare(b.version));
+    /**
+     * Read all migrations from the configured source (by default, the migrations directory).
+     * Returns them sorted by version (timestamp) ascending, followed by the repeatable
+     * migrations sorted by name.
+     */
+    readMigrationFiles(): MigrationFile[] {
+        const migrations = this.source.readMigrations(this.logger);
+
+        // Sort by version ascending, repeatable migrations last
+        return migrations.sort((a, b) =>
+            Boolean(a.repeatable) === Boolean(b.repeatable)
+                ? a.version.localeCompare(b.version)
+                : a.repeatable
+                  ? 1
+                  : -1
+        );
     }
 
     // ─── Database Queries ────────────────────────────────────────────────
 
     /**
-     * Get all applied migrations from the database.
+     * Get all recorded migrations from the database, including failed ones (`status: 'failed'`).
      */
     async getAppliedMigrations(): Promise<MigrationRecord[]> {
         await this.ensureMigrationsTable();
         const result = await this.pool.query(
-            `SELECT id, version, name, applied_at, execution_time_ms, checksum
+            `SELECT id, version, name, applied_at, execution_time_ms, checksum, status, error
              FROM ${this.tableName}
              ORDER BY version ASC`
         );
@@ -174,7 +315,8 @@ export class MigrationRunner {
     }
 
     /**
-     * Get status of all migrations (applied + pending).
+     * Get status of all migrations (applied + pending). Repeatable migrations have
+     * `status: 'repeatable'`, with `outdated` set when the next migrate() would re-apply them.
      */
     async getStatus(): Promise<MigrationStatus[]> {
         const files = this.readMigrationFiles();
@@ -183,6 +325,29 @@ export class MigrationRunner {
 
         return files.map((file) => {
             const record = appliedMap.get(file.version);
+            if (record?.status === 'failed') {
+                return {
+                    version: file.version,
+                    name: file.name,
+                    filename: file.filename,
+                    status: 'failed' as const,
+                    applied_at: record.applied_at,
+                    checksum: record.checksum,
+                    error: record.error ?? undefined
+                };
+            }
+            if (file.repeatable) {
+                return {
+                    version: file.version,
+                    name: file.name,
+                    filename: file.filename,
+                    status: 'repeatable' as const,
+                    applied_at: record?.applied_at,
+                    execution_time_ms: record?.execution_time_ms,
+                    checksum: record?.checksum,
+                    outdated: record?.checksum !== file.checksum
+                };
+            }
             if (record) {
                 return {
                     version: file.version,
@@ -205,240 +370,1168 @@ export class MigrationRunner {
     }
 
     /**
-     * Get only pending migrations (not yet applied).
+     * Get only pending migrations (not yet applied), including outdated repeatable migrations.
      */
     async getPendingMigrations(): Promise<MigrationFile[]> {
         const files = this.readMigrationFiles();
         const applied = await this.getAppliedMigrations();
-        const appliedVersions = new Set(applied.map((m) => m.version));
-
-        return files.filter((f) => !appliedVersions.has(f.version));
+        return this.findPending(files, applied);
     }
 
-    // ─── Migrate ─────────────────────────────────────────────────────────
-
     /**
-     * Apply all pending migrations in order.
-     * Each migration runs in its own transaction for atomicity.
-     * When advisory locking is enabled, a lock is held during the entire operation.
-     *
-     * @param options - Optional settings (e.g. `{ dryRun: true }`).
+     * The migrations migrate() would apply: versioned migrations that are not recorded, then
+     * repeatable migrations that never ran or whose checksum changed since they last ran.
      */
-    async migrate(options?: MigrateOptions): Promise<MigrationRunSummary> {
-        const dryRun = options?.dryRun ?? false;
+    private findPending(files: MigrationFile[], applied: MigrationRecord[]): MigrationFile[] {
+        const appliedMap = new Map(applied.map((m) => [m.version, m]));
 
-        await this.ensureMigrationsTable();
-        const pending = await this.getPendingMigrations();
+        return [
+            ...files.filter((f) => !f.repeatable && !appliedMap.has(f.version)),
+            ...files.filter(
+                (f) => f.repeatable && appliedMap.get(f.version)?.checksum !== f.checksum
+            )
+        ];
+    }
 
-        const summary: MigrationRunSummary = {
-            applied: [],
-            failed: null,
-            total_pending: pending.length,
-            total_applied: 0,
-            dryRun
-        };
+    /**
+     * Throw if any migration is recorded as failed — running more SQL on top of a
+     * half-applied migration would only make things worse.
+     */
+    private assertNotDirty(applied: MigrationRecord[]): void {
+        const dirty = applied.find((m) => m.status === 'failed');
+        if (dirty) {
+            throw new MigrationDirtyError(dirty.version, dirty.name, dirty.error ?? null);
+        }
+    }
 
-        if (pending.length === 0) {
-            return summary;
+    // ─── Locking ─────────────────────────────────────────────────────────
+
+    /**
+     * Run `fn` while holding the advisory lock (when locking is enabled).
+     * The lock is released and its client returned to the pool even if `fn` throws.
+     */
+    private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+        if (!this.useLock) {
+            return fn();
         }
 
-        // Optionally acquire advisory lock
-        let lockClient: any = null;
-        if (this.useLock) {
-            lockClient = await this.pool.connect();
-            await acquireLock(lockClient, this.lockId, this.logger);
+        const lockClient = await this.pool.connect();
+        const requestedAt = Date.now();
+        try {
+            await acquireLock(lockClient, this.lockId, this.logger, this.lockOptions);
+        } catch (error) {
+            lockClient.release();
+            throw error;
         }
 
+        const acquiredAt = Date.now();
+        this.events.emit('lock:acquired', {
+            lockId: this.lockId,
+            waitedMs: acquiredAt - requestedAt
+        });
+
         try {
-            for (const migration of pending) {
-                if (dryRun) {
-                    // In dry-run mode, just report what would happen
-                    summary.applied.push({
-                        success: true,
-                        version: migration.version,
-                        name: migration.name,
-                        execution_time_ms: 0
-                    });
-                    summary.total_applied++;
-                    this.logger.info(
-                        `[dry-run] Would apply: ${migration.version}_${migration.name}`
-                    );
-                    continue;
-                }
+            return await fn();
+        } finally {
+            await releaseLock(lockClient, this.lockId, this.logger);
+            lockClient.release();
+            this.events.emit('lock:released', {
+                lockId: this.lockId,
+                heldMs: Date.now() - acquiredAt
+            });
+        }
+    }
 
-                const client = await this.pool.connect();
-                const startTime = Date.now();
+    // ─── Checksums ───────────────────────────────────────────────────────
 
-                try {
-                    await client.query('BEGIN');
+    /**
+     * Compare every applied migration's recorded checksum with its file on disk.
+     * Applied migrations whose file is missing are not reported, nor are repeatable
+     * migrations, whose files are meant to change.
+     *
+     * @returns Every drifted migration (empty if all files match).
+     */
+    async verifyChecksums(): Promise<ChecksumMismatch[]> {
+        const files = this.readMigrationFiles();
+        const applied = await this.getAppliedMigrations();
+        return this.findChecksumMismatches(files, applied);
+    }
 
-                    // Execute the UP SQL
-                    await client.query(migration.upSql);
+    private findChecksumMismatches(
+        files: MigrationFile[],
+        applied: MigrationRecord[]
+    ): ChecksumMismatch[] {
+        const fileMap = new Map(files.map((f) => [f.version, f]));
+        const mismatches: ChecksumMismatch[] = [];
+
+        for (const record of applied) {
+            const file = fileMap.get(record.version);
+            if (file && !file.repeatable && file.checksum !== record.checksum) {
+                mismatches.push({
+                    version: record.version,
+                    name: record.name,
+                    expected: record.checksum,
+                    actual: file.checksum
+                });
+            }
+        }
 
-                    // Record the migration
-                    await client.query(
-                        `INSERT INTO ${this.tableName} (version, name, execution_time_ms, checksum)
-                         VALUES ($1, $2, $3, $4)`,
-                        [
-                            migration.version,
-                            migration.name,
-                            Date.now() - startTime,
-                            migration.checksum
-                        ]
-                    );
+        return mismatches;
+    }
 
-                    await client.query('COMMIT');
+    /**
+     * Throw a ChecksumMismatchError listing every drifted migration, if any.
+     */
+    private assertChecksums(files: MigrationFile[], applied: MigrationRecord[]): void {
+        const mismatches = this.findChecksumMismatches(files, applied);
+        if (mismatches.length > 0) {
+            const [first] = mismatches;
+            throw new ChecksumMismatchError(
+                first.version,
+                first.name,
+                first.expected,
+                first.actual,
+                mismatches
+            );
+        }
+    }
 
-                    const result: MigrationResult = {
-                        success: true,
-                        version: migration.version,
-                        name: migration.name,
-                        execution_time_ms: Date.now() - startTime
-                    };
-                    summary.applied.push(result);
-                    summary.total_applied++;
-                } catch (error: any) {
-                    await client.query('ROLLBACK');
+    // ─── Validation ──────────────────────────────────────────────────────
 
-                    summary.failed = {
-                        success: false,
-                        version: migration.version,
-                        name: migration.name,
-                        execution_time_ms: Date.now() - startTime,
-                        error: error.message
-                    };
+    /**
+     * Run `validateMigrationSQL` over the given migrations and log every finding.
+     */
+    private validateMigrations(migrations: MigrationFile[]): MigrationValidationFinding[] {
+        const findings: MigrationValidationFinding[] = [];
 
-                    // Stop on first failure — don't apply subsequent migrations
-                    break;
-                } finally {
-                    client.release();
-                }
-            }
-        } finally {
-            // Release the lock if acquired
-            if (lockClient) {
-                await releaseLock(lockClient, this.lockId, this.logger);
-                lockClient.release();
+        for (const migration of migrations) {
+            if (isModule(migration)) continue; // Nothing to lint in JS/TS modules
+
+            const warnings = validateMigrationSQL(
+                migration.upSql,
+                migration.downSql,
+                migration.filename,
+                { noTransaction: migration.noTransaction, repeatable: migration.repeatable }
+            );
+            for (const warning of warnings) {
+                findings.push({
+                    ...warning,
+                    version: migration.version,
+                    name: migration.name,
+                    filename: migration.filename
+                });
+                const location = warning.line !== undefined ? ` (line ${warning.line})` : '';
+                const log = warning.level === 'error' ? this.logger.error : this.logger.warn;
+                log.call(this.logger, `[validate] ${warning.message}${location}`);
             }
         }
 
-        return summary;
+        return findings;
     }
 
-    // ─── Rollback ────────────────────────────────────────────────────────
-
     /**
-     * Rollback the last N applied migrations (default: 1).
-     * Each rollback runs in its own transaction.
-     * An advisory lock is held during the entire operation.
+     * Resolve the `${name}` placeholders in a migration's UP or DOWN SQL from `variables`.
+     * The checksum is left as it is: it covers the unresolved text.
      *
-     * @param count - Number of migrations to roll back (default: 1).
-     * @param options - Optional settings (e.g. `{ dryRun: true }`).
+     * @throws MigrationParseError if the SQL uses a variable that has no value.
      */
-    async rollback(
-        count: number = 1,
-        options?: RollbackOptions
-    ): Promise<MigrationRollbackSummary> {
-        const dryRun = options?.dryRun ?? false;
+    private resolveVariables(file: MigrationFile, direction: MigrationDirection): MigrationFile {
+        if (isModule(file)) return file;
+
+        const key = direction === 'up' ? 'upSql' : 'downSql';
+        const { sql, undefinedVariables } = substituteVariables(file[key], this.variables);
+
+        if (undefinedVariables.length > 0) {
+            const names = undefinedVariables.map((name) => `\${${name}}`).join(', ');
+            throw new MigrationParseError(
+                file.filename,
+                `undefined variable${undefinedVariables.length > 1 ? 's' : ''} ${names} ` +
+                    `in the ${direction.toUpperCase()} section`
+            );
+        }
 
-        await this.ensureMigrationsTable();
+        return { ...file, [key]: sql };
+    }
 
-        const applied = await this.getAppliedMigrations();
-        const files = this.readMigrationFiles();
-        const fileMap = new Map(files.map((f) => [f.version, f]));
+    /**
+     * Execute SQL for a `-- migrate:no-transaction` file one statement at a time.
+     * A multi-statement query would run as an implicit transaction, which is exactly
+     * what statements like CREATE INDEX CONCURRENTLY refuse.
+     */
+    private async executeWithoutTransaction(client: PoolClient, sql: string): Promise<void> {
+        for (const statement of splitStatements(sql)) {
+            await client.query(statement);
+        }
+    }
 
-        // Get the last N applied migrations (most recent first)
-        const toRollback = applied.slice(-count).reverse();
+    /**
+     * Run a migration's UP or DOWN step on `client`: the module's `up()` / `down()` for
+     * JS/TS migrations, otherwise the SQL (statement by statement for non-transactional files).
+     *
+     * @returns The rows the SQL affected (undefined for modules and non-transactional files).
+     */
+    private async executeMigration(
+        client: PoolClient,
+        file: MigrationFile,
+        direction: MigrationDirection
+    ): Promise<number | undefined> {
+        if (isModule(file)) {
+            const mod = await this.loadMigrationModule(file);
+            const step = direction === 'up' ? mod.up : mod.down;
+            if (!step) {
+                throw new MigrationRollbackError(
+                    file.version,
+                    file.name,
+                    this.describeMissingDown(file)
+                );
+            }
+            await step(client);
+            return undefined;
+        }
 
-        const summary: MigrationRollbackSummary = {
-            rolledBack: [],
-            failed: null,
-            total_rolled_back: 0,
-            dryRun
-        };
+        const sql = direction === 'up' ? file.upSql : file.downSql;
+        if (file.noTransaction) {
+            await this.executeWithoutTransaction(client, sql);
+            return undefined;
+        }
+        return countRows(await client.query(sql));
+    }
 
-        // Optionally acquire advisory lock
-        let lockClient: any = null;
-        if (this.useLock) {
-            lockClient = await this.pool.connect();
-            await acquireLock(lockClient, this.lockId, this.logger);
+    /**
+     * Load a JS/TS migration module. `.ts` files need a TypeScript loader (e.g. ts-node,
+     * tsx) registered in the process.
+     *
+     * @throws MigrationParseError if the module cannot be loaded or does not export `up()`.
+     */
+    private async loadMigrationModule(file: MigrationFile): Promise<MigrationModule> {
+        if (file.module) {
+            return file.module;
         }
 
+        const modulePath = file.modulePath!;
+
+        let loaded: any;
         try {
-            for (const record of toRollback) {
-                const file = fileMap.get(record.version);
+            loaded = modulePath.endsWith('.mjs')
+                ? await importModule(pathToFileURL(modulePath).href)
+                : // eslint-disable-next-line @typescript-eslint/no-var-requires
+                  require(modulePath);
+        } catch (error: any) {
+            throw new MigrationParseError(file.filename, `could not load module: ${error.message}`);
+        }
 
-                if (dryRun) {
-                    // Validate that rollback is possible, but don't execute
-                    if (!file) {
-                        summary.failed = {
-                            success: false,
-                            version: record.version,
-                            name: record.name,
-                            execution_time_ms: 0,
-                            error: `Migration file not found for version ${record.version} (${record.name}).`
-                        };
-                        break;
-                    }
-                    if (!file.downSql) {
-                        summary.failed = {
-                            success: false,
-                            version: record.version,
-                            name: record.name,
-                            execution_time_ms: 0,
-                            error: `No DOWN section — rollback not possible.`
-                        };
-                        break;
-                    }
+        // Named exports, `module.exports = {...}`, or a default export
+        const mod = typeof loaded?.up === 'function' ? loaded : loaded?.default;
+        if (typeof mod?.up !== 'function') {
+            throw new MigrationParseError(
+                file.filename,
+                'the module does not export an up() function'
+            );
+        }
+        return mod;
+    }
 
-                    summary.rolledBack.push({
-                        success: true,
-                        version: record.version,
-                        name: record.name,
-                        execution_time_ms: 0
-                    });
-                    summary.total_rolled_back++;
-                    this.logger.info(`[dry-run] Would rollback: ${record.version}_${record.name}`);
-                    continue;
-                }
+    /**
+     * Whether `file` can be rolled back: it has a DOWN section, or its module exports `down()`.
+     */
+    private async hasDown(file: MigrationFile): Promise<boolean> {
+        if (isModule(file)) {
+            const mod = await this.loadMigrationModule(file);
+            return typeof mod.down === 'function';
+        }
+        return Boolean(file.downSql);
+    }
 
-                const client = await this.pool.connect();
-                const startTime = Date.now();
+    private describeMissingDown(file: MigrationFile): string {
+        return isModule(file)
+            ? 'The module does not export a down() function.'
+            : `No '${DOWN_MARKER}' section.`;
+    }
 
-                try {
-                    if (!file) {
-                        throw new MigrationFileNotFoundError(record.version, record.name);
-                    }
+    // ─── Migrate ─────────────────────────────────────────────────────────
 
-                    if (!file.downSql) {
-                        throw new MigrationRollbackError(
-                            record.version,
-                            record.name,
-                            `No '${DOWN_MARKER}' section. Cannot rollback without down SQL.`
-                        );
-                    }
+    /**
+     * Apply all pending migrations in order, then the repeatable migrations that are new or
+     * changed. With `to`, repeatable migrations are left for a later run.
+     * With `atomic: 'all'`, the whole batch runs in one transaction.
+     * Otherwise each migration runs in its own transaction for atomicity, except files marked
+     * `-- migrate:no-transaction`: their statements run one by one and the migration is
+     * recorded only after all of them succeed.
+     * When advisory locking is enabled and something is pending, the lock is held while it is
+     * applied (listing-only dry runs don't take it).
+     *
+     * @param options - Optional settings (e.g. `{ dryRun: true }`, `{ to: '20240101120000' }`).
+     * @throws MigrationError if `options.to` does not match any migration file.
+     * @throws MigrationDirtyError if a migration is recorded as failed.
+     * @throws ChecksumMismatchError in strict checksum mode, before anything is applied.
+     * @throws MigrationValidationError in `'error'` validation mode, before the lock is acquired.
+     * @throws MigrationError with `atomic: 'all'` if a pending file is `-- migrate:no-transaction`.
+     * @throws MigrationHookError if the `beforeAll` or `afterAll` hook fails.
+     */
+    async migrate(options?: MigrateOptions): Promise<MigrationRunSummary> {
+        const runStartTime = Date.now();
+        const target = options?.to;
 
-                    await client.query('BEGIN');
+        const files = this.readMigrationFiles();
+        if (target !== undefined && !files.some((f) => f.version === target)) {
+            throw new MigrationError(
+                `Target version ${target} does not match any migration in ${this.source.description}.`,
+                target
+            );
+        }
 
-                    // Execute the DOWN SQL
-                    await client.query(file.downSql);
+        const printSql = options?.printSql ?? false;
+        const dryRun = (options?.dryRun ?? false) || printSql;
+        const validate = options?.validate ?? this.validate;
+        const atomic: AtomicMode = options?.atomic ?? 'per-migration';
 
-                    // Remove the migration record
-                    await client.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [
-                        record.version
-                    ]);
+        await this.ensureMigrationsTable();
+        let { pending, summary } = this.planPending(
+            files,
+            await this.getAppliedMigrations(),
+            options
+        );
 
-                    await client.query('COMMIT');
+        if (validate !== 'off') {
+            summary.validation = this.validateMigrations(pending);
 
-                    summary.rolledBack.push({
-                        success: true,
-                        version: record.version,
+            const errors = summary.validation.filter((f) => f.level === 'error');
+            if (validate === 'error' && errors.length > 0) {
+                throw new MigrationValidationError(errors);
+            }
+        }
+
+        if (atomic === 'all') {
+            const nonTransactional = pending.find((m) => m.noTransaction);
+            if (nonTransactional) {
+                throw new MigrationError(
+                    `Migration ${describeMigration(nonTransactional)} is marked ` +
+                        `'${NO_TRANSACTION_DIRECTIVE}' and cannot run with atomic: 'all'. ` +
+                        `Apply it separately with atomic: 'per-migration'.`,
+                    nonTransactional.version,
+                    nonTransactional.name
+                );
+            }
+        }
+
+        if (printSql) {
+            summary.sql = this.renderMigrationScript(pending, atomic);
+        }
+
+        // Only take the lock when something will run: instances that boot together against
+        // an up-to-date database, and listing-only dry runs, never contend for it
+        if (pending.length > 0 && (!dryRun || dryRun === 'execute')) {
+            summary = await this.withLock(async () => {
+                if (this.useLock) {
+                    // Read the tracking table again: an instance that waited for the lock must
+                    // see what the previous holder applied
+                    const latest = this.planPending(
+                        files,
+                        await this.getAppliedMigrations(),
+                        options
+                    );
+                    latest.summary.validation = summary.validation;
+                    ({ pending, summary } = latest);
+                }
+                return this.applyPending(pending, summary, options);
+            });
+        } else {
+            summary = await this.applyPending(pending, summary, options);
+        }
+
+        this.events.emit('run:complete', {
+            command: 'migrate',
+            summary,
+            durationMs: Date.now() - runStartTime
+        });
+        return summary;
+    }
+
+    /**
+     * Check the applied migrations, then work out which files migrate() should apply, with
+     * their variables resolved, and the summary to report them in.
+     */
+    private planPending(
+        files: MigrationFile[],
+        applied: MigrationRecord[],
+        options?: MigrateOptions
+    ): { pending: MigrationFile[]; summary: MigrationRunSummary } {
+        const dryRun = (options?.dryRun ?? false) || (options?.printSql ?? false);
+        const target = options?.to;
+
+        this.assertNotDirty(applied);
+
+        if (this.strictChecksums) {
+            this.assertChecksums(files, applied);
+        }
+
+        const allPending = this.findPending(files, applied);
+
+        // Leave anything newer than the target pending (repeatable migrations may depend on it)
+        const selected =
+            target === undefined
+                ? allPending
+                : allPending.filter((m) => !m.repeatable && m.version <= target);
+
+        // Resolve variables up front, so an undefined one fails before anything is applied
+        const pending = selected.map((m) => this.resolveVariables(m, 'up'));
+
+        const summary: MigrationRunSummary = {
+            applied: [],
+            failed: null,
+            total_pending: allPending.length,
+            total_applied: 0,
+            skipped: allPending
+                .filter((m) => !selected.includes(m))
+                .map((m) => ({ version: m.version, name: m.name })),
+            validation: [],
+            dryRun
+        };
+        return { pending, summary };
+    }
+
+    /**
+     * The body of migrate() once the pending files are known: apply them (under the lock,
+     * unless this is a listing-only dry run) or preview them.
+     */
+    private async applyPending(
+        pending: MigrationFile[],
+        summary: MigrationRunSummary,
+        options?: MigrateOptions
+    ): Promise<MigrationRunSummary> {
+        const dryRun = summary.dryRun;
+        const atomic: AtomicMode = options?.atomic ?? 'per-migration';
+
+        if (pending.length === 0) {
+            return summary;
+        }
+
+        if (dryRun === 'execute') {
+            const { results, failed } = await this.executeAndRollBack(
+                'up',
+                pending.map((file) => ({ version: file.version, name: file.name, file }))
+            );
+            summary.applied.push(...results);
+            summary.total_applied = results.length;
+            summary.failed = failed;
+            return summary;
+        }
+
+        if (atomic === 'all' && !dryRun) {
+            await this.callRunHook('beforeAll', pending);
+            await this.applyInSingleTransaction(pending, summary);
+            await this.callRunHook('afterAll', summary);
+            return summary;
+        }
+
+        if (!dryRun) await this.callRunHook('beforeAll', pending);
+
+        for (const migration of pending) {
+            this.events.emit('migration:start', {
+                direction: 'up',
+                version: migration.version,
+                name: migration.name,
+                file: migration,
+                dryRun
+            });
+
+            if (dryRun) {
+                // In dry-run mode, just report what would happen
+                const result: MigrationResult = {
+                    success: true,
+                    version: migration.version,
+                    name: migration.name,
+                    execution_time_ms: 0
+                };
+                summary.applied.push(result);
+                summary.total_applied++;
+                this.logger.info(`[dry-run] Would apply: ${describeMigration(migration)}`);
+                this.events.emit('migration:success', {
+                    direction: 'up',
+                    result,
+                    file: migration,
+                    dryRun
+                });
+                continue;
+            }
+
+            const client = await this.pool.connect();
+            const startTime = Date.now();
+
+            try {
+                if (!migration.noTransaction) {
+                    await client.query('BEGIN');
+                }
+                await this.callHook('beforeEach', migration, migration, client);
+
+                // Execute the UP SQL (or the module's up())
+                await this.executeMigration(client, migration, 'up');
+
+                // Record the migration
+                await this.recordMigration(client, migration, Date.now() - startTime);
+
+                const result: MigrationResult = {
+                    success: true,
+                    version: migration.version,
+                    name: migration.name,
+                    execution_time_ms: Date.now() - startTime
+                };
+                await this.callHook('afterEach', migration, result, client);
+
+                if (!migration.noTransaction) {
+                    await client.query('COMMIT');
+                }
+
+                summary.applied.push(result);
+                summary.total_applied++;
+                this.events.emit('migration:success', {
+                    direction: 'up',
+                    result,
+                    file: migration,
+                    dryRun
+                });
+            } catch (error: any) {
+                if (migration.noTransaction) {
+                    this.logger.error(
+                        `${describeMigration(migration)} runs outside a transaction — ` +
+                            'statements before the failure were NOT rolled back.'
+                    );
+                    // Leave a dirty record so the next run doesn't blindly retry it
+                    await this.recordFailure(
+                        client,
+                        migration,
+                        Date.now() - startTime,
+                        error.message
+                    );
+                } else {
+                    await client.query('ROLLBACK');
+                }
+
+                summary.failed = {
+                    success: false,
+                    version: migration.version,
+                    name: migration.name,
+                    execution_time_ms: Date.now() - startTime,
+                    error: error.message
+                };
+                this.events.emit('migration:failure', {
+                    direction: 'up',
+                    result: summary.failed,
+                    file: migration,
+                    error,
+                    dryRun
+                });
+                await this.notifyError(error, migration);
+
+                // Stop on first failure — don't apply subsequent migrations
+                break;
+            } finally {
+                client.release();
+            }
+        }
+
+        if (!dryRun) await this.callRunHook('afterAll', summary);
+
+        return summary;
+    }
+
+    /**
+     * Apply `pending` in one transaction on one client (`atomic: 'all'`).
+     * Results are only reported once COMMIT succeeds; on failure the whole batch is rolled back.
+     */
+    private async applyInSingleTransaction(
+        pending: MigrationFile[],
+        summary: MigrationRunSummary
+    ): Promise<void> {
+        const client = await this.pool.connect();
+        const results: MigrationResult[] = [];
+        let current = pending[0];
+        let startTime = Date.now();
+
+        try {
+            await client.query('BEGIN');
+
+            for (const migration of pending) {
+                current = migration;
+                startTime = Date.now();
+                this.events.emit('migration:start', {
+                    direction: 'up',
+                    version: migration.version,
+                    name: migration.name,
+                    file: migration,
+                    dryRun: false
+                });
+
+                await this.callHook('beforeEach', migration, migration, client);
+                await this.executeMigration(client, migration, 'up');
+                await this.recordMigration(client, migration, Date.now() - startTime);
+
+                const result: MigrationResult = {
+                    success: true,
+                    version: migration.version,
+                    name: migration.name,
+                    execution_time_ms: Date.now() - startTime
+                };
+                await this.callHook('afterEach', migration, result, client);
+                results.push(result);
+            }
+
+            await client.query('COMMIT');
+
+            summary.applied.push(...results);
+            summary.total_applied = results.length;
+            results.forEach((result, i) =>
+                this.events.emit('migration:success', {
+                    direction: 'up',
+                    result,
+                    file: pending[i],
+                    dryRun: false
+                })
+            );
+        } catch (error: any) {
+            await client.query('ROLLBACK');
+
+            if (results.length > 0) {
+                this.logger.error(
+                    `Rolled back the whole batch, including ${results.length} migration(s) ` +
+                        `applied before ${describeMigration(current)}`
+                );
+            }
+
+            summary.failed = {
+                success: false,
+                version: current.version,
+                name: current.name,
+                execution_time_ms: Date.now() - startTime,
+                error: error.message
+            };
+            this.events.emit('migration:failure', {
+                direction: 'up',
+                result: summary.failed,
+                file: current,
+                error,
+                dryRun: false
+            });
+            await this.notifyError(error, current);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * `dryRun: 'execute'`: run the UP or DOWN steps, with their tracking-table changes, in one
+     * transaction on one client and roll it back whatever happens. Stops at the first failure,
+     * like a real run. Non-transactional migrations cannot run in the transaction and are only
+     * listed, with `executed: false`. Hooks are not called.
+     */
+    private async executeAndRollBack(
+        direction: MigrationDirection,
+        migrations: { version: string; name: string; file: MigrationFile | null }[]
+    ): Promise<{ results: MigrationResult[]; failed: MigrationResult | null }> {
+        const client = await this.pool.connect();
+        const results: MigrationResult[] = [];
+        let failed: MigrationResult | null = null;
+
+        try {
+            await client.query('BEGIN');
+
+            for (const { version, name, file } of migrations) {
+                this.events.emit('migration:start', {
+                    direction,
+                    version,
+                    name,
+                    file,
+                    dryRun: 'execute'
+                });
+                const startTime = Date.now();
+
+                try {
+                    if (!file) {
+                        throw new MigrationFileNotFoundError(version, name);
+                    }
+
+                    let result: MigrationResult;
+                    if (file.noTransaction) {
+                        this.logger.warn(
+                            `[dry-run] Not executed: ${describeMigration(file)} is marked ` +
+                                `'${NO_TRANSACTION_DIRECTIVE}' and cannot run inside the dry-run transaction`
+                        );
+                        result = {
+                            success: true,
+                            version,
+                            name,
+                            execution_time_ms: 0,
+                            executed: false
+                        };
+                    } else {
+                        if (direction === 'down' && !(await this.hasDown(file))) {
+                            throw new MigrationRollbackError(
+                                version,
+                                name,
+                                `${this.describeMissingDown(file)} Cannot rollback without it.`
+                            );
+                        }
+
+                        const rowCount = await this.executeMigration(client, file, direction);
+                        if (direction === 'up') {
+                            await this.recordMigration(client, file, Date.now() - startTime);
+                        } else {
+                            await client.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [
+                                version
+                            ]);
+                        }
+
+                        result = {
+                            success: true,
+                            version,
+                            name,
+                            execution_time_ms: Date.now() - startTime,
+                            ...(rowCount !== undefined && { rowCount })
+                        };
+                        this.logger.info(
+                            `[dry-run] ${direction === 'up' ? 'Applied' : 'Rolled back'} ` +
+                                `${describeMigration(file)} (${result.execution_time_ms}ms` +
+                                (rowCount !== undefined ? `, ${rowCount} row(s)` : '') +
+                                ') — will be undone'
+                        );
+                    }
+
+                    results.push(result);
+                    this.events.emit('migration:success', {
+                        direction,
+                        result,
+                        file,
+                        dryRun: 'execute'
+                    });
+                } catch (error: any) {
+                    failed = {
+                        success: false,
+                        version,
+                        name,
+                        execution_time_ms: Date.now() - startTime,
+                        error: error.message
+                    };
+                    this.logger.error(
+                        `[dry-run] ${describeMigration({ version, name })} would fail: ${error.message}`
+                    );
+                    this.events.emit('migration:failure', {
+                        direction,
+                        result: failed,
+                        file,
+                        error,
+                        dryRun: 'execute'
+                    });
+                    break;
+                }
+            }
+        } finally {
+            try {
+                await client.query('ROLLBACK');
+            } finally {
+                client.release();
+            }
+        }
+
+        return { results, failed };
+    }
+
+    // ─── Hooks ───────────────────────────────────────────────────────────
+
+    /**
+     * Call a lifecycle hook, if configured, rethrowing its failure as MigrationHookError.
+     */
+    private async callHook<K extends keyof MigrationHooks>(
+        name: K,
+        migration: MigrationFile | null,
+        ...args: Parameters<NonNullable<MigrationHooks[K]>>
+    ): Promise<void> {
+        const hook = this.hooks[name] as ((...hookArgs: unknown[]) => unknown) | undefined;
+        if (!hook) return;
+
+        try {
+            await hook(...args);
+        } catch (error) {
+            throw new MigrationHookError(name, error, migration?.version, migration?.name);
+        }
+    }
+
+    /**
+     * Call `beforeAll` / `afterAll`. There is no migration to report a failure against,
+     * so it is passed to `onError` and rethrown.
+     */
+    private async callRunHook<K extends 'beforeAll' | 'afterAll'>(
+        name: K,
+        ...args: Parameters<NonNullable<MigrationHooks[K]>>
+    ): Promise<void> {
+        try {
+            await this.callHook(name, null, ...args);
+        } catch (error: any) {
+            await this.notifyError(error, null);
+            throw error;
+        }
+    }
+
+    /**
+     * Call the `onError` hook. Never throws: the original failure is what the caller reports.
+     */
+    private async notifyError(error: Error, migration: MigrationFile | null): Promise<void> {
+        if (!this.hooks.onError) return;
+
+        try {
+            await this.hooks.onError(error, migration);
+        } catch (hookError: any) {
+            this.logger.error(`onError hook failed: ${hookError.message}`);
+        }
+    }
+
+    /**
+     * Insert the tracking-table row for a successfully applied migration. A repeatable
+     * migration's existing row is updated with the new checksum instead.
+     */
+    private async recordMigration(
+        client: PoolClient,
+        migration: MigrationFile,
+        executionTimeMs: number
+    ): Promise<void> {
+        if (migration.repeatable) {
+            await client.query(
+                `INSERT INTO ${this.tableName} (version, name, execution_time_ms, checksum)
+                 VALUES ($1, $2, $3, $4)
+                 ON CONFLICT (version) DO UPDATE SET
+                     name = EXCLUDED.name,
+                     applied_at = NOW(),
+                     execution_time_ms = EXCLUDED.execution_time_ms,
+                     checksum = EXCLUDED.checksum`,
+                [migration.version, migration.name, executionTimeMs, migration.checksum]
+            );
+            return;
+        }
+
+        await client.query(
+            `INSERT INTO ${this.tableName} (version, name, execution_time_ms, checksum)
+             VALUES ($1, $2, $3, $4)`,
+            [migration.version, migration.name, executionTimeMs, migration.checksum]
+        );
+    }
+
+    /**
+     * Record a failed non-transactional migration as a dirty `status = 'failed'` row.
+     * Never throws: the original failure is what the caller reports.
+     */
+    private async recordFailure(
+        client: PoolClient,
+        migration: MigrationFile,
+        executionTimeMs: number,
+        message: string
+    ): Promise<void> {
+        try {
+            await client.query(
+                `INSERT INTO ${this.tableName} (version, name, execution_time_ms, checksum, status, error)
+                 VALUES ($1, $2, $3, $4, 'failed', $5)
+                 ON CONFLICT (version) DO UPDATE SET status = 'failed', error = EXCLUDED.error`,
+                [migration.version, migration.name, executionTimeMs, migration.checksum, message]
+            );
+        } catch (recordError: any) {
+            this.logger.error(
+                `Could not record ${describeMigration(migration)} as failed: ${recordError.message}`
+            );
+        }
+    }
+
+    // ─── SQL Script ──────────────────────────────────────────────────────
+
+    /**
+     * Render migrations as a psql script that applies them by hand: the tracking table, then
+     * each migration's UP SQL and tracking-table INSERT, inside the transactions migrate()
+     * would use.
+     *
+     * @throws MigrationError if a migration is a JS/TS module, which has no SQL to print.
+     */
+    private renderMigrationScript(migrations: MigrationFile[], atomic: AtomicMode): string {
+        const jsMigration = migrations.find(isModule);
+        if (jsMigration) {
+            throw new MigrationError(
+                `Cannot print SQL for ${describeMigration(jsMigration)}: it is a JS/TS ` +
+                    'migration. Apply it with the runner instead.',
+                jsMigration.version,
+                jsMigration.name
+            );
+        }
+
+        const perMigration = atomic === 'per-migration';
+        const lines = [
+            `-- Generated by pg-migrate-runner at ${new Date().toISOString()}`,
+            `-- Source: ${this.source.description}`,
+            `-- Pending migrations: ${migrations.length}`,
+            '',
+            '\\set ON_ERROR_STOP on',
+            '',
+            this.migrationsTableSql(),
+            ''
+        ];
+        if (!perMigration) lines.push('BEGIN;', '');
+
+        for (const migration of migrations) {
+            const inTransaction = perMigration && !migration.noTransaction;
+            lines.push(
+                `-- ${describeMigration(migration)}` +
+                    (migration.noTransaction ? ` (${NO_TRANSACTION_DIRECTIVE})` : '')
+            );
+            if (inTransaction) lines.push('BEGIN;');
+            // A closing semicolon on its own line, so a trailing comment cannot swallow it
+            lines.push(
+                /;\s*$/.test(migration.upSql) ? migration.upSql : `${migration.upSql}\n;`,
+                this.recordMigrationSql(migration)
+            );
+            if (inTransaction) lines.push('COMMIT;');
+            lines.push('');
+        }
+
+        if (!perMigration) lines.push('COMMIT;', '');
+        return lines.join('\n');
+    }
+
+    /**
+     * The tracking-table INSERT recordMigration() runs, with the values inlined.
+     */
+    private recordMigrationSql(migration: MigrationFile): string {
+        const values = [migration.version, migration.name].map(quoteLiteral).join(', ');
+        const insert =
+            `INSERT INTO ${this.tableName} (version, name, execution_time_ms, checksum) ` +
+            `VALUES (${values}, 0, ${quoteLiteral(migration.checksum)})`;
+
+        if (migration.repeatable) {
+            return (
+                `${insert}\n    ON CONFLICT (version) DO UPDATE SET name = EXCLUDED.name, ` +
+                'applied_at = NOW(), execution_time_ms = EXCLUDED.execution_time_ms, ' +
+                'checksum = EXCLUDED.checksum;'
+            );
+        }
+        return `${insert};`;
+    }
+
+    // ─── Rollback ────────────────────────────────────────────────────────
+
+    /**
+     * Rollback the last N applied migrations (default: 1), or every applied
+     * migration newer than `options.toVersion`. Repeatable migrations are never rolled back.
+     * Each rollback runs in its own transaction (statement by statement, without one,
+     * for `-- migrate:no-transaction` files).
+     * An advisory lock is held during the entire operation.
+     *
+     * @param count - Number of migrations to roll back (default: 1). Ignored when `toVersion` is set.
+     * @param options - Optional settings (e.g. `{ dryRun: true }`, `{ toVersion: '20240101120000' }`).
+     * @throws MigrationError if `toVersion` is unknown.
+     * @throws MigrationFileNotFoundError / MigrationRollbackError if a migration newer than
+     *         `toVersion` cannot be rolled back (checked before anything is executed).
+     * @throws MigrationDirtyError if a migration is recorded as failed.
+     * @throws ChecksumMismatchError in strict checksum mode, before anything is rolled back.
+     */
+    async rollback(
+        count: number = 1,
+        options?: RollbackOptions
+    ): Promise<MigrationRollbackSummary> {
+        const runStartTime = Date.now();
+        const dryRun = options?.dryRun ?? false;
+        const toVersion = options?.toVersion;
+
+        const files = this.readMigrationFiles();
+
+        // Read the tracking table only once the lock is held: an instance that waited for it
+        // must not roll back what the previous holder already rolled back
+        const summary = await this.withLock(async () => {
+            await this.ensureMigrationsTable();
+            const applied = await this.getAppliedMigrations();
+            const fileMap = new Map(files.map((f) => [f.version, f]));
+
+            this.assertNotDirty(applied);
+
+            if (this.strictChecksums) {
+                this.assertChecksums(files, applied);
+            }
+
+            const versioned = applied.filter((m) => !isRepeatableVersion(m.version));
+
+            let toRollback: MigrationRecord[];
+            if (toVersion !== undefined) {
+                if (!versioned.some((m) => m.version === toVersion) && !fileMap.has(toVersion)) {
+                    throw new MigrationError(
+                        `Target version ${toVersion} does not match any applied migration or migration file.`,
+                        toVersion
+                    );
+                }
+
+                // Everything newer than the target (most recent first)
+                toRollback = versioned.filter((m) => m.version > toVersion).reverse();
+
+                // Refuse up front rather than stopping halfway through the range
+                for (const record of toRollback) {
+                    const file = fileMap.get(record.version);
+                    if (!file) {
+                        throw new MigrationFileNotFoundError(record.version, record.name);
+                    }
+                    if (!(await this.hasDown(file))) {
+                        throw new MigrationRollbackError(
+                            record.version,
+                            record.name,
+                            `${this.describeMissingDown(file)} Cannot rollback to ${toVersion} without it.`
+                        );
+                    }
+                }
+            } else {
+                // Get the last N applied migrations (most recent first)
+                toRollback = versioned.slice(-count).reverse();
+            }
+
+            // Resolve variables up front, so an undefined one fails before anything is rolled back
+            for (const record of toRollback) {
+                const file = fileMap.get(record.version);
+                if (file) {
+                    fileMap.set(record.version, this.resolveVariables(file, 'down'));
+                }
+            }
+
+            const summary: MigrationRollbackSummary = {
+                rolledBack: [],
+                failed: null,
+                total_rolled_back: 0,
+                dryRun
+            };
+
+            this.events.emit('rollback:start', { migrations: toRollback, dryRun });
+
+            if (dryRun === 'execute') {
+                const { results, failed } = await this.executeAndRollBack(
+                    'down',
+                    toRollback.map((record) => ({
+                        version: record.version,
                         name: record.name,
-                        execution_time_ms: Date.now() - startTime
+                        file: fileMap.get(record.version) ?? null
+                    }))
+                );
+                summary.rolledBack.push(...results);
+                summary.total_rolled_back = results.length;
+                summary.failed = failed;
+                return summary;
+            }
+
+            for (const record of toRollback) {
+                const file = fileMap.get(record.version);
+                this.events.emit('migration:start', {
+                    direction: 'down',
+                    version: record.version,
+                    name: record.name,
+                    file: file ?? null,
+                    dryRun
+                });
+
+                if (dryRun) {
+                    // Validate that rollback is possible, but don't execute
+                    let problem: string | null = null;
+                    if (!file) {
+                        problem = `Migration file not found for version ${record.version} (${record.name}).`;
+                    } else if (!(await this.hasDown(file))) {
+                        problem = isModule(file)
+                            ? `No down() export — rollback not possible.`
+                            : `No DOWN section — rollback not possible.`;
+                    }
+                    if (problem) {
+                        summary.failed = {
+                            success: false,
+                            version: record.version,
+                            name: record.name,
+                            execution_time_ms: 0,
+                            error: problem
+                        };
+                        this.events.emit('migration:failure', {
+                            direction: 'down',
+                            result: summary.failed,
+                            file: file ?? null,
+                            error: new MigrationError(problem, record.version, record.name),
+                            dryRun
+                        });
+                        break;
+                    }
+
+                    const result: MigrationResult = {
+                        success: true,
+                        version: record.version,
+                        name: record.name,
+                        execution_time_ms: 0
+                    };
+                    summary.rolledBack.push(result);
+                    summary.total_rolled_back++;
+                    this.logger.info(`[dry-run] Would rollback: ${record.version}_${record.name}`);
+                    this.events.emit('migration:success', {
+                        direction: 'down',
+                        result,
+                        file: file ?? null,
+                        dryRun
                     });
+                    continue;
+                }
+
+                const client = await this.pool.connect();
+                const startTime = Date.now();
+
+                try {
+                    if (!file) {
+                        throw new MigrationFileNotFoundError(record.version, record.name);
+                    }
+
+                    if (!(await this.hasDown(file))) {
+                        throw new MigrationRollbackError(
+                            record.version,
+                            record.name,
+                            `${this.describeMissingDown(file)} Cannot rollback without it.`
+                        );
+                    }
+
+                    if (!file.noTransaction) {
+                        await client.query('BEGIN');
+                    }
+
+                    // Execute the DOWN SQL (or the module's down())
+                    await this.executeMigration(client, file, 'down');
+
+                    // Remove the migration record
+                    await client.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [
+                        record.version
+                    ]);
+
+                    if (!file.noTransaction) {
+                        await client.query('COMMIT');
+                    }
+
+                    const result: MigrationResult = {
+                        success: true,
+                        version: record.version,
+                        name: record.name,
+                        execution_time_ms: Date.now() - startTime
+                    };
+                    summary.rolledBack.push(result);
                     summary.total_rolled_back++;
+                    this.events.emit('migration:success', {
+                        direction: 'down',
+                        result,
+                        file,
+                        dryRun
+                    });
                 } catch (error: any) {
-                    await client.query('ROLLBACK');
+                    if (file?.noTransaction) {
+                        this.logger.error(
+                            `${record.version}_${record.name} rolls back outside a transaction — ` +
+                                'statements before the failure were NOT undone.'
+                        );
+                        await this.recordFailure(
+                            client,
+                            file,
+                            Date.now() - startTime,
+                            `Rollback failed: ${error.message}`
+                        );
+                    } else {
+                        await client.query('ROLLBACK');
+                    }
 
                     summary.failed = {
                         success: false,
@@ -447,6 +1540,13 @@ export class MigrationRunner {
                         execution_time_ms: Date.now() - startTime,
                         error: error.message
                     };
+                    this.events.emit('migration:failure', {
+                        direction: 'down',
+                        result: summary.failed,
+                        file: file ?? null,
+                        error,
+                        dryRun
+                    });
 
                     // Stop on first failure
                     break;
@@ -454,17 +1554,333 @@ export class MigrationRunner {
                     client.release();
                 }
             }
-        } finally {
-            // Release the lock if acquired
-            if (lockClient) {
-                await releaseLock(lockClient, this.lockId, this.logger);
-                lockClient.release();
+
+            return summary;
+        });
+
+        this.events.emit('run:complete', {
+            command: 'rollback',
+            summary,
+            durationMs: Date.now() - runStartTime
+        });
+        return summary;
+    }
+
+    // ─── Resolve ─────────────────────────────────────────────────────────
+
+    /**
+     * Clear a failed ("dirty") migration record after fixing the database by hand.
+     *
+     * - `{ as: 'applied' }` keeps the record and marks it applied
+     * - `{ as: 'pending' }` deletes the record so migrate() runs the migration again
+     *
+     * @param version - The failed migration's version.
+     * @param options - How to resolve it.
+     * @throws MigrationError if `version` is not recorded as failed.
+     */
+    async resolve(version: string, options: ResolveOptions): Promise<void> {
+        const applied = await this.getAppliedMigrations();
+        const record = applied.find((m) => m.version === version);
+
+        if (!record || record.status !== 'failed') {
+            throw new MigrationError(
+                `Migration ${version} is not recorded as failed — nothing to resolve.`,
+                version,
+                record?.name
+            );
+        }
+
+        await this.withLock(async () => {
+            if (options.as === 'applied') {
+                await this.pool.query(
+                    `UPDATE ${this.tableName} SET status = 'applied', error = NULL WHERE version = $1`,
+                    [version]
+                );
+            } else {
+                await this.pool.query(`DELETE FROM ${this.tableName} WHERE version = $1`, [
+                    version
+                ]);
             }
+        });
+
+        this.logger.info(`Resolved ${describeMigration(record)} as ${options.as}`);
+    }
+
+    // ─── Repair ──────────────────────────────────────────────────────────
+
+    /**
+     * Re-sync stored checksums with the current migration files after an intentional edit
+     * (e.g. a comment or whitespace fix in an applied migration).
+     *
+     * Every change is recorded in the `<tableName>_repairs` audit table with the old and
+     * new checksum, who ran the repair and when. All updates run in one transaction
+     * while the advisory lock is held.
+     *
+     * @param options - Optional settings (e.g. `{ dryRun: true }`, `{ versions: ['20240101120000'] }`).
+     * @throws MigrationError if a requested version is not applied.
+     * @throws MigrationFileNotFoundError if a requested version has no file on disk.
+     */
+    async repair(options?: RepairOptions): Promise<MigrationRepairSummary> {
+        const dryRun = options?.dryRun ?? false;
+        const versions = options?.versions;
+
+        const files = this.readMigrationFiles();
+        const applied = await this.getAppliedMigrations();
+
+        if (versions) {
+            const appliedMap = new Map(applied.map((m) => [m.version, m]));
+            const fileVersions = new Set(files.map((f) => f.version));
+
+            for (const version of versions) {
+                const record = appliedMap.get(version);
+                if (!record) {
+                    throw new MigrationError(
+                        `Cannot repair migration ${version}: it has not been applied.`,
+                        version
+                    );
+                }
+                if (!fileVersions.has(version)) {
+                    throw new MigrationFileNotFoundError(version, record.name);
+                }
+            }
+        }
+
+        const repaired: ChecksumRepair[] = this.findChecksumMismatches(files, applied)
+            .filter((m) => !versions || versions.includes(m.version))
+            .map((m) => ({
+                version: m.version,
+                name: m.name,
+                before: m.expected,
+                after: m.actual
+            }));
+
+        const summary: MigrationRepairSummary = { repaired, dryRun };
+
+        if (dryRun || repaired.length === 0) {
+            for (const r of repaired) {
+                this.logger.info(
+                    `[dry-run] Would repair: ${r.version}_${r.name} (${r.before} → ${r.after})`
+                );
+            }
+            return summary;
         }
 
+        await this.withLock(async () => {
+            const client = await this.pool.connect();
+
+            try {
+                await client.query('BEGIN');
+
+                await client.query(`
+                    CREATE TABLE IF NOT EXISTS ${this.tableName}_repairs (
+                        id SERIAL PRIMARY KEY,
+                        version VARCHAR(14) NOT NULL,
+                        name VARCHAR(255) NOT NULL,
+                        old_checksum VARCHAR(16) NOT NULL,
+                        new_checksum VARCHAR(16) NOT NULL,
+                        repaired_by VARCHAR(255) NOT NULL,
+                        repaired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+                    );
+                `);
+
+                for (const r of repaired) {
+                    await client.query(
+                        `UPDATE ${this.tableName} SET checksum = $1 WHERE version = $2`,
+                        [r.after, r.version]
+                    );
+                    await client.query(
+                        `INSERT INTO ${this.tableName}_repairs
+                             (version, name, old_checksum, new_checksum, repaired_by)
+                         VALUES ($1, $2, $3, $4, COALESCE($5, CURRENT_USER))`,
+                        [r.version, r.name, r.before, r.after, options?.repairedBy ?? null]
+                    );
+                }
+
+                await client.query('COMMIT');
+            } catch (error) {
+                await client.query('ROLLBACK');
+                throw error;
+            } finally {
+                client.release();
+            }
+        });
+
         return summary;
     }
 
+    // ─── Seeds ───────────────────────────────────────────────────────────
+
+    /**
+     * Read the seed files (`*.sql`) from the seeds directories: directory by directory,
+     * in filename order within each one.
+     *
+     * @throws MigrationError if two directories contain a seed with the same filename.
+     */
+    readSeedFiles(): SeedFile[] {
+        const seeds: SeedFile[] = [];
+        const pathsByName = new Map<string, string>();
+
+        for (const dir of this.seedsDirs) {
+            if (!fs.existsSync(dir)) continue;
+
+            const filenames = fs
+                .readdirSync(dir)
+                .filter((f) => f.endsWith('.sql'))
+                .sort();
+
+            for (const filename of filenames) {
+                const filePath = path.join(dir, filename);
+                const existing = pathsByName.get(filename);
+                if (existing) {
+                    throw new MigrationError(
+                        `Duplicate seed ${filename}: ${existing} and ${filePath}. ` +
+                            'Seeds are tracked by filename, so it must be unique.'
+                    );
+                }
+                pathsByName.set(filename, filePath);
+
+                const { sql, always } = parseSeedFile(fs.readFileSync(filePath, 'utf-8'));
+                if (!sql) {
+                    this.logger.warn(`Skipping seed ${filename}: empty file`);
+                    continue;
+                }
+
+                seeds.push({
+                    name: filename,
+                    filePath,
+                    sql,
+                    checksum: computeChecksum(sql),
+                    always
+                });
+            }
+        }
+
+        return seeds;
+    }
+
+    /**
+     * Run the seed files: run-once seeds that have not run yet, and every `-- seed:always` seed.
+     *
+     * Seeds are tracked in the `<tableName>_seeds` table, apart from the migrations. Each seed
+     * runs in its own transaction, in order, and the run stops at the first failure.
+     * When advisory locking is enabled, a lock is held during the entire operation.
+     * A run-once seed that changed after it ran is not run again (a warning is logged).
+     *
+     * @param options - Optional settings (e.g. `{ dryRun: true }`).
+     * @throws MigrationError if two seed directories contain the same filename.
+     */
+    async seed(options?: SeedOptions): Promise<SeedRunSummary> {
+        const dryRun = options?.dryRun ?? false;
+        const seeds = this.readSeedFiles();
+        if (seeds.length === 0) {
+            return { applied: [], failed: null, skipped: [], total_applied: 0, dryRun };
+        }
+
+        // Read the seeds table only once the lock is held: an instance that waited for it must
+        // not run again the run-once seeds the previous holder just ran
+        return this.withLock(async () => {
+            await this.ensureSeedsTable();
+            const { rows } = await this.pool.query(
+                `SELECT name, checksum FROM ${this.tableName}_seeds`
+            );
+            const recorded = new Map<string, string>(
+                rows.map((row: { name: string; checksum: string }) => [row.name, row.checksum])
+            );
+
+            const summary: SeedRunSummary = {
+                applied: [],
+                failed: null,
+                skipped: [],
+                total_applied: 0,
+                dryRun
+            };
+
+            const toRun = seeds.filter((seed) => {
+                const checksum = recorded.get(seed.name);
+                if (seed.always || checksum === undefined) {
+                    return true;
+                }
+                if (checksum !== seed.checksum) {
+                    this.logger.warn(
+                        `Seed ${seed.name} changed since it ran. Run-once seeds are not run again; ` +
+                            `add '${SEED_ALWAYS_DIRECTIVE}' or write a new seed.`
+                    );
+                }
+                summary.skipped.push(seed.name);
+                return false;
+            });
+
+            if (toRun.length === 0) {
+                return summary;
+            }
+
+            for (const seed of toRun) {
+                if (dryRun) {
+                    summary.applied.push({ success: true, name: seed.name, execution_time_ms: 0 });
+                    summary.total_applied++;
+                    this.logger.info(`[dry-run] Would seed: ${seed.name}`);
+                    continue;
+                }
+
+                const client = await this.pool.connect();
+                const startTime = Date.now();
+
+                try {
+                    await client.query('BEGIN');
+                    await client.query(seed.sql);
+                    await client.query(
+                        `INSERT INTO ${this.tableName}_seeds (name, execution_time_ms, checksum)
+                         VALUES ($1, $2, $3)
+                         ON CONFLICT (name) DO UPDATE SET
+                             applied_at = NOW(),
+                             execution_time_ms = EXCLUDED.execution_time_ms,
+                             checksum = EXCLUDED.checksum`,
+                        [seed.name, Date.now() - startTime, seed.checksum]
+                    );
+                    await client.query('COMMIT');
+
+                    summary.applied.push({
+                        success: true,
+                        name: seed.name,
+                        execution_time_ms: Date.now() - startTime
+                    });
+                    summary.total_applied++;
+                } catch (error: any) {
+                    await client.query('ROLLBACK');
+
+                    summary.failed = {
+                        success: false,
+                        name: seed.name,
+                        execution_time_ms: Date.now() - startTime,
+                        error: error.message
+                    };
+
+                    // Stop on first failure — later seeds may depend on this one
+                    break;
+                } finally {
+                    client.release();
+                }
+            }
+
+            return summary;
+        });
+    }
+
+    /**
+     * Ensure the seeds tracking table exists.
+     */
+    private async ensureSeedsTable(): Promise<void> {
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS ${this.tableName}_seeds (
+                id SERIAL PRIMARY KEY,
+                name VARCHAR(255) NOT NULL UNIQUE,
+                applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+                execution_time_ms INTEGER NOT NULL DEFAULT 0,
+                checksum VARCHAR(16) NOT NULL
+            );
+        `);
+    }
+
     // ─── Create Migration File ───────────────────────────────────────────
 
     /**
@@ -506,8 +1922,9 @@ export class MigrationRunner {
 -- ║  6. DOWN must reverse UP exactly (idempotent when possible)     ║
 -- ║  7. Avoid destructive ops (DROP COLUMN, TRUNCATE) unless       ║
 -- ║     absolutely necessary — document the reason                  ║
--- ║  8. ALTER TYPE ... ADD VALUE cannot run in a transaction        ║
--- ║     → Use a workaround if adding enum values                    ║
+-- ║  8. ALTER TYPE ... ADD VALUE / CREATE INDEX CONCURRENTLY        ║
+-- ║     cannot run in a transaction → put them in their own file   ║
+-- ║     and add the 'migrate:no-transaction' header directive      ║
 -- ║  9. Test migrations on a copy of production data first          ║
 -- ║  10. Never modify a migration that has already been applied     ║
 -- ╚══════════════════════════════════════════════════════════════════╝
@@ -534,6 +1951,83 @@ export class MigrationRunner {
         return { filepath, filename, version };
     }
 
+    // ─── Wait ────────────────────────────────────────────────────────────
+
+    /**
+     * Wait until every migration file has been applied — for application instances that
+     * don't run migrations themselves but must not serve traffic on an old schema.
+     *
+     * Polls the pending migrations every `pollMs`. With locking enabled, it also waits for
+     * the advisory lock to be released, so it doesn't return while another instance is
+     * still in the middle of a run.
+     *
+     * @param options - Optional `timeoutMs` (default: 60000) and `pollMs` (default: 1000).
+     * @throws MigrationWaitTimeoutError with the remaining pending versions on timeout.
+     * @throws MigrationDirtyError if a migration is recorded as failed — waiting won't fix it.
+     */
+    async waitUntilUpToDate(options?: WaitOptions): Promise<void> {
+        const timeoutMs = options?.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+        const pollMs = options?.pollMs ?? DEFAULT_WAIT_POLL_INTERVAL_MS;
+        const deadline = Date.now() + timeoutMs;
+        let lastReported: string | null = null;
+
+        for (;;) {
+            const applied = await this.peekAppliedMigrations();
+            this.assertNotDirty(applied);
+
+            const pending = this.findPending(this.readMigrationFiles(), applied).map(
+                (f) => f.version
+            );
+            const holder = this.useLock ? await this.getLockHolder() : null;
+
+            if (pending.length === 0 && !holder) {
+                this.logger.debug('Database is up to date.');
+                return;
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new MigrationWaitTimeoutError(timeoutMs, pending, holder);
+            }
+
+            const report =
+                `Waiting for ${pending.length} pending migration(s)` +
+                (holder ? ` (lock held by ${describeLockHolder(holder)})` : '');
+            if (report !== lastReported) {
+                this.logger.info(report);
+                lastReported = report;
+            }
+
+            await sleep(Math.min(pollMs, remaining));
+        }
+    }
+
+    /**
+     * Like getAppliedMigrations(), but never creates or upgrades the tracking table: app
+     * instances that poll often lack the privilege. A missing table means nothing is applied.
+     */
+    private async peekAppliedMigrations(): Promise<MigrationRecord[]> {
+        const table = await this.pool.query('SELECT to_regclass($1) IS NULL AS missing', [
+            this.tableName
+        ]);
+        if (table.rows[0]?.missing) return [];
+
+        // Every column, so a table an older version created (without `status`) reads fine
+        const result = await this.pool.query(
+            `SELECT * FROM ${this.tableName} ORDER BY version ASC`
+        );
+        return result.rows;
+    }
+
+    private async getLockHolder(): Promise<LockHolder | null> {
+        const client = await this.pool.connect();
+        try {
+            return await getLockHolder(client, this.lockId);
+        } finally {
+            client.release();
+        }
+    }
+
     // ─── Convenience Methods ─────────────────────────────────────────────
 
     /**
@@ -549,8 +2043,11 @@ export class MigrationRunner {
      */
     async getSummary(): Promise<MigrationSummary> {
         const status = await this.getStatus();
-        const applied = status.filter((s) => s.status === 'applied').length;
-        const pending = status.filter((s) => s.status === 'pending').length;
-        return { applied, pending, total: status.length };
+        const isPending = (s: MigrationStatus) =>
+            s.status === 'pending' || (s.status === 'repeatable' && s.outdated);
+        const applied = status.filter((s) => s.status !== 'failed' && !isPending(s)).length;
+        const pending = status.filter(isPending).length;
+        const failed = status.filter((s) => s.status === 'failed').length;
+        return { applied, pending, failed, total: status.length };
     }
 }
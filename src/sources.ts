@@ -0,0 +1,335 @@
+/**
+ * pg-migrate-runner — Migration Sources
+ *
+ * Where the runner reads its migrations from. The default reads one directory; other
+ * sources let migrations ship inside a bundle, come from several directories or packages,
+ * or be defined in memory (handy in tests).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import {
+    MigrationDefinition,
+    MigrationFile,
+    MigrationLogger,
+    MigrationModule,
+    MigrationSource
+} from './types';
+import { MigrationDuplicateVersionError, MigrationParseError } from './errors';
+import {
+    UP_MARKER,
+    computeChecksum,
+    parseFilename,
+    parseModuleFilename,
+    parseRepeatableFilename,
+    parseMigrationFile
+} from './helpers';
+
+// ─── Filesystem ──────────────────────────────────────────────────────────────
+
+/**
+ * Reads `.sql` migrations (versioned, and repeatable `R__<name>.sql`) and `.js` / `.ts` /
+ * `.mjs` migration modules from one or more directories, optionally including their
+ * subdirectories (e.g. `migrations/2025/...`).
+ * This is the default source, built from `migrationsDir`.
+ *
+ * A migration's `filename` is its path relative to the directory it was found in.
+ */
+export class FilesystemMigrationSource implements MigrationSource {
+    readonly description: string;
+    private dirs: string[];
+    private recursive: boolean;
+
+    /**
+     * @param dirs - The migrations directory, or several of them.
+     * @param options.recursive - Also read subdirectories (default: false). `node_modules`
+     *   and dot-directories are skipped.
+     */
+    constructor(dirs: string | string[], options?: { recursive?: boolean }) {
+        this.dirs = Array.isArray(dirs) ? dirs : [dirs];
+        this.recursive = options?.recursive ?? false;
+        this.description = this.dirs.join(', ');
+    }
+
+    /**
+     * @throws MigrationDuplicateVersionError if two files share a version.
+     */
+    readMigrations(logger?: MigrationLogger): MigrationFile[] {
+        return readMigrationPaths(
+            this.dirs.flatMap((dir) =>
+                this.listDir(dir).map((filePath) => ({
+                    filePath,
+                    filename: relativeName(dir, filePath)
+                }))
+            ),
+            logger
+        );
+    }
+
+    /**
+     * List every file in the directories (whether or not it is named like a migration).
+     */
+    listFiles(): string[] {
+        return this.dirs.flatMap((dir) => this.listDir(dir));
+    }
+
+    private listDir(dir: string): string[] {
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        const entries = this.recursive
+            ? walk(dir)
+            : fs.readdirSync(dir).map((filename) => path.join(dir, filename));
+        return entries.filter((entry) => fs.statSync(entry).isFile());
+    }
+}
+
+// ─── Glob ────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads migrations from several directories or glob patterns, relative to `cwd`
+ * (e.g. `['db/migrations', 'plugins/*', 'vendor/**']`).
+ *
+ * A pattern matching a directory contributes the migration files directly inside it;
+ * a pattern matching files contributes those that follow the migration naming pattern.
+ * Patterns support `*` (within one path segment), `**` (any number of directories) and `?`.
+ */
+export class GlobMigrationSource implements MigrationSource {
+    readonly description: string;
+    private patterns: string[];
+    private cwd: string;
+
+    constructor(patterns: string | string[], options?: { cwd?: string }) {
+        this.patterns = Array.isArray(patterns) ? patterns : [patterns];
+        this.cwd = options?.cwd || process.cwd();
+        this.description = this.patterns.join(', ');
+    }
+
+    /**
+     * @throws MigrationDuplicateVersionError if two files share a version.
+     */
+    readMigrations(logger?: MigrationLogger): MigrationFile[] {
+        // File path → filename, relative to the matched directory or the pattern's base
+        const files = new Map<string, string>();
+
+        for (const pattern of this.patterns) {
+            const { base, matches } = expandPattern(pattern, this.cwd);
+            for (const match of matches) {
+                if (fs.statSync(match).isDirectory()) {
+                    for (const filename of fs.readdirSync(match)) {
+                        files.set(path.join(match, filename), filename);
+                    }
+                } else if (!files.has(match)) {
+                    files.set(match, relativeName(base, match));
+                }
+            }
+        }
+
+        return readMigrationPaths(
+            [...files].map(([filePath, filename]) => ({ filePath, filename })),
+            logger
+        );
+    }
+}
+
+// ─── In-Memory ───────────────────────────────────────────────────────────────
+
+/**
+ * Serves migrations defined in code — for single-file bundles, or tests without temp
+ * directories. Each definition has SQL strings or `up` / `down` functions.
+ */
+export class MemoryMigrationSource implements MigrationSource {
+    readonly description = 'in-memory migrations';
+    private migrations: MigrationFile[];
+
+    /**
+     * @param definitions - The migrations. Versions must be YYYYMMDDHHMMSS, names snake_case.
+     * @throws MigrationParseError if a version or name is invalid, or a SQL `up` is empty.
+     */
+    constructor(definitions: MigrationDefinition[]) {
+        this.migrations = definitions.map(toMigrationFile);
+    }
+
+    readMigrations(): MigrationFile[] {
+        return [...this.migrations];
+    }
+}
+
+// ─── Internals ───────────────────────────────────────────────────────────────
+
+function readMigrationPaths(
+    files: { filePath: string; filename: string }[],
+    logger?: MigrationLogger
+): MigrationFile[] {
+    const migrations: MigrationFile[] = [];
+    const pathsByVersion = new Map<string, string>();
+
+    const claimVersion = (version: string, filePath: string) => {
+        const existing = pathsByVersion.get(version);
+        if (existing) {
+            throw new MigrationDuplicateVersionError(version, [existing, filePath]);
+        }
+        pathsByVersion.set(version, filePath);
+    };
+
+    for (const { filePath, filename } of files) {
+        const basename = path.basename(filePath);
+
+        const moduleParsed = parseModuleFilename(basename);
+        if (moduleParsed) {
+            claimVersion(moduleParsed.version, filePath);
+            // JS/TS modules are loaded lazily, when they run
+            migrations.push({
+                version: moduleParsed.version,
+                name: moduleParsed.name,
+                filename,
+                upSql: '',
+                downSql: '',
+                checksum: computeChecksum(fs.readFileSync(filePath, 'utf-8')),
+                modulePath: filePath
+            });
+            continue;
+        }
+
+        const repeatable = parseRepeatableFilename(basename);
+        const parsed = parseFilename(basename) ?? repeatable;
+        if (!parsed) continue; // Skip files that don't match the naming pattern
+
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const sections = parseMigrationFile(content);
+
+        if (!sections) {
+            logger?.warn(`Skipping ${filename}: missing '${UP_MARKER}' marker`);
+            continue;
+        }
+
+        if (!sections.upSql) {
+            logger?.warn(`Skipping ${filename}: empty UP section`);
+            continue;
+        }
+
+        claimVersion(parsed.version, filePath);
+        migrations.push({
+            version: parsed.version,
+            name: parsed.name,
+            filename,
+            upSql: sections.upSql,
+            downSql: sections.downSql,
+            checksum: computeChecksum(sections.upSql),
+            noTransaction: sections.noTransaction,
+            ...(repeatable && { repeatable: true })
+        });
+    }
+
+    return migrations;
+}
+
+function toMigrationFile(definition: MigrationDefinition): MigrationFile {
+    const filename = `${definition.version}_${definition.name}`;
+
+    if (!parseFilename(`${filename}.sql`)) {
+        throw new MigrationParseError(
+            filename,
+            'version must be YYYYMMDDHHMMSS and name snake_case'
+        );
+    }
+
+    if (typeof definition.up !== 'string') {
+        const { up, down } = definition as Extract<
+            MigrationDefinition,
+            { up: MigrationModule['up'] }
+        >;
+        return {
+            version: definition.version,
+            name: definition.name,
+            filename,
+            upSql: '',
+            downSql: '',
+            checksum: computeChecksum(up.toString()),
+            module: { up, down }
+        };
+    }
+
+    const { up, down, noTransaction } = definition as Extract<MigrationDefinition, { up: string }>;
+    const upSql = up.trim();
+    if (!upSql) {
+        throw new MigrationParseError(filename, 'empty UP section');
+    }
+
+    return {
+        version: definition.version,
+        name: definition.name,
+        filename,
+        upSql,
+        downSql: (down ?? '').trim(),
+        checksum: computeChecksum(upSql),
+        noTransaction: noTransaction ?? false
+    };
+}
+
+/**
+ * `filePath` relative to `dir`, with `/` separators on every platform.
+ */
+function relativeName(dir: string, filePath: string): string {
+    return path.relative(dir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Expand a directory path or glob pattern to the existing paths it matches, and the
+ * directory before its first wildcard.
+ */
+function expandPattern(pattern: string, cwd: string): { base: string; matches: string[] } {
+    const absolute = path.resolve(cwd, pattern);
+    const segments = absolute.split(path.sep);
+    const firstGlob = segments.findIndex((segment) => /[*?]/.test(segment));
+
+    if (firstGlob === -1) {
+        return {
+            base: path.dirname(absolute),
+            matches: fs.existsSync(absolute) ? [absolute] : []
+        };
+    }
+
+    const base = segments.slice(0, firstGlob).join(path.sep) || path.sep;
+    const regex = globToRegExp(segments.slice(firstGlob).join('/'));
+
+    return { base, matches: walk(base).filter((p) => regex.test(relativeName(base, p))) };
+}
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i];
+        if (ch === '*' && glob[i + 1] === '*') {
+            // `**/` matches zero or more directories
+            const slash = glob[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (ch === '*') {
+            source += '[^/]*';
+        } else if (ch === '?') {
+            source += '[^/]';
+        } else {
+            source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+
+    const result: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+
+        const full = path.join(dir, entry.name);
+        result.push(full);
+        if (entry.isDirectory()) {
+            result.push(...walk(full));
+        }
+    }
+    return result;
+}
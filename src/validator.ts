@@ -5,7 +5,16 @@
  * Returns an array of warnings/errors. Does NOT block execution — callers decide.
  */
 
-import { ValidationWarning } from './types';
+import { ValidationOptions, ValidationWarning } from './types';
+import {
+    UP_MARKER,
+    DOWN_MARKER,
+    NO_TRANSACTION_DIRECTIVE,
+    parseFilename,
+    parseModuleFilename,
+    parseRepeatableFilename,
+    parseMigrationFile
+} from './helpers';
 
 /**
  * Validate migration SQL for common anti-patterns and best-practice violations.
@@ -22,20 +31,38 @@ import { ValidationWarning } from './types';
  * - RAISE outside DO $$ block (syntax error in plain SQL)
  * - Destructive operations (DROP COLUMN, TRUNCATE, DELETE without WHERE)
  * - Manual transaction control (BEGIN/COMMIT/ROLLBACK)
- * - ALTER TYPE ... ADD VALUE (cannot run in a transaction)
+ * - ALTER TYPE ... ADD VALUE and CONCURRENTLY operations (cannot run in a transaction),
+ *   unless `options.noTransaction` is set
  *
  * @param upSql - The UP (apply) SQL to validate.
  * @param downSql - The DOWN (rollback) SQL to validate.
  * @param migrationName - Optional migration name for clearer error messages.
+ * @param options - Optional settings (e.g. `{ noTransaction: true }`).
  * @returns An array of validation warnings/errors.
  */
 export function validateMigrationSQL(
     upSql: string,
     downSql: string,
-    migrationName?: string
+    migrationName?: string,
+    options?: ValidationOptions
 ): ValidationWarning[] {
-    const warnings: ValidationWarning[] = [];
     const label = migrationName ? ` (${migrationName})` : '';
+    const noTransaction = options?.noTransaction ?? false;
+    return [
+        ...validateUpSection(upSql, label, noTransaction),
+        ...(options?.repeatable ? [] : validateDownSection(downSql, label, noTransaction))
+    ];
+}
+
+/**
+ * Checks for the UP section. Line numbers are relative to the section.
+ */
+function validateUpSection(
+    upSql: string,
+    label: string,
+    noTransaction: boolean
+): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
 
     // ─── UP SQL checks ───
 
@@ -167,16 +194,20 @@ export function validateMigrationSQL(
         });
 
         // ALTER TYPE ... ADD VALUE — cannot run inside transaction in PostgreSQL
-        upLines.forEach((line, idx) => {
-            const trimmed = line.trim().toUpperCase();
-            if (trimmed.match(/ALTER\s+TYPE\b.*ADD\s+VALUE\b/)) {
-                warnings.push({
-                    level: 'warning',
-                    message: `ALTER TYPE ... ADD VALUE cannot run inside a transaction in PostgreSQL${label}. This migration may fail. Consider a workaround.`,
-                    line: idx + 1
-                });
-            }
-        });
+        if (!noTransaction) {
+            upLines.forEach((line, idx) => {
+                const trimmed = line.trim().toUpperCase();
+                if (trimmed.match(/ALTER\s+TYPE\b.*ADD\s+VALUE\b/)) {
+                    warnings.push({
+                        level: 'warning',
+                        message: `ALTER TYPE ... ADD VALUE cannot run inside a transaction in PostgreSQL${label}. This migration may fail. Add '${NO_TRANSACTION_DIRECTIVE}' to the file header.`,
+                        line: idx + 1
+                    });
+                }
+            });
+        }
+
+        warnings.push(...checkConcurrently(upLines, label, noTransaction));
 
         // DROP + CREATE pattern — prefer CREATE IF NOT EXISTS for idempotency
         const upUpper = upSql.toUpperCase();
@@ -230,6 +261,19 @@ export function validateMigrationSQL(
         });
     }
 
+    return warnings;
+}
+
+/**
+ * Checks for the DOWN section. Line numbers are relative to the section.
+ */
+function validateDownSection(
+    downSql: string,
+    label: string,
+    noTransaction: boolean
+): ValidationWarning[] {
+    const warnings: ValidationWarning[] = [];
+
     // ─── DOWN SQL checks ───
 
     if (!downSql || !downSql.trim()) {
@@ -302,6 +346,8 @@ export function validateMigrationSQL(
             }
         });
 
+        warnings.push(...checkConcurrently(downLines, label, noTransaction));
+
         // RAISE outside DO $$ block in DOWN
         const downWithoutDoBlocks = downSql.replace(/DO\s+\$\$[\s\S]*?\$\$/gi, '');
         const downRemainingLines = downWithoutDoBlocks.split('\n');
@@ -319,3 +365,88 @@ export function validateMigrationSQL(
 
     return warnings;
 }
+
+/**
+ * CREATE/DROP INDEX CONCURRENTLY and REINDEX ... CONCURRENTLY cannot run inside a transaction.
+ */
+function checkConcurrently(
+    lines: string[],
+    label: string,
+    noTransaction: boolean
+): ValidationWarning[] {
+    if (noTransaction) return [];
+
+    const warnings: ValidationWarning[] = [];
+    lines.forEach((line, idx) => {
+        const trimmed = line.trim().toUpperCase();
+        if (trimmed.match(/^(CREATE|DROP|REINDEX)\b.*\bCONCURRENTLY\b/)) {
+            warnings.push({
+                level: 'warning',
+                message: `CONCURRENTLY cannot run inside a transaction in PostgreSQL${label}. This migration will fail. Add '${NO_TRANSACTION_DIRECTIVE}' to the file header.`,
+                line: idx + 1
+            });
+        }
+    });
+    return warnings;
+}
+
+/**
+ * Validate a whole migration file: its filename, its `-- migrate:up` marker, and
+ * (if those pass) its SQL via the same checks as `validateMigrationSQL`.
+ * Repeatable migrations (`R__<name>.sql`) need no DOWN section. JS/TS migration modules
+ * only have their filename checked: there is no SQL to validate.
+ *
+ * Unlike `validateMigrationSQL`, line numbers refer to lines in the file.
+ * Needs no database connection — suitable for linting in CI.
+ *
+ * @param filename - The file's basename (e.g. "20240101120000_create_users.sql").
+ * @param content - The full content of the migration file.
+ * @returns An array of validation warnings/errors.
+ */
+export function validateMigrationFile(filename: string, content: string): ValidationWarning[] {
+    if (parseModuleFilename(filename)) {
+        return [];
+    }
+
+    const repeatable = parseRepeatableFilename(filename) !== null;
+    if (!repeatable && !parseFilename(filename)) {
+        return [
+            {
+                level: 'warning',
+                message: `Filename '${filename}' does not match YYYYMMDDHHMMSS_snake_case_name.sql (or .js/.ts/.mjs) or R__snake_case_name.sql. The runner will skip this file.`
+            }
+        ];
+    }
+
+    const sections = parseMigrationFile(content);
+    if (!sections) {
+        return [
+            {
+                level: 'error',
+                message: `Missing '${UP_MARKER}' marker. The runner will skip this file.`
+            }
+        ];
+    }
+
+    // Line in the file where a (trimmed) section starts
+    const sectionStart = (sql: string, marker: string): number => {
+        const index = content.indexOf(sql, content.indexOf(marker));
+        return index === -1 ? 1 : content.substring(0, index).split('\n').length;
+    };
+
+    const toFileLines = (warnings: ValidationWarning[], start: number): ValidationWarning[] =>
+        warnings.map((w) => (w.line !== undefined ? { ...w, line: start + w.line - 1 } : w));
+
+    return [
+        ...toFileLines(
+            validateUpSection(sections.upSql, '', sections.noTransaction),
+            sectionStart(sections.upSql, UP_MARKER)
+        ),
+        ...(repeatable
+            ? []
+            : toFileLines(
+                  validateDownSection(sections.downSql, '', sections.noTransaction),
+                  sectionStart(sections.downSql, DOWN_MARKER)
+              ))
+    ];
+}